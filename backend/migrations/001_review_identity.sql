@@ -0,0 +1,40 @@
+-- Stable review identity so repeated scrapes upsert instead of duplicating rows.
+-- external_id holds the platform id (Google data-review-id) or a "fp:" fingerprint.
+
+create extension if not exists pgcrypto;
+
+alter table public.reviews
+  add column if not exists external_id text;
+
+-- Key existing rows the way the scraper does (reviewKey in src/ingest.ts): the
+-- platform id when raw_data has one, otherwise sha1 of the normalised
+-- "name|text|rating", so the next scrape updates them instead of adding copies.
+-- raw_data holds the values exactly as they were scraped, so it goes first.
+update public.reviews
+set external_id = coalesce(
+  nullif(raw_data->>'external_id', ''),
+  'fp:' || encode(digest(
+    trim(regexp_replace(lower(coalesce(raw_data->>'reviewer_name', reviewer_name, '')), '\s+', ' ', 'g'))
+      || '|' ||
+    trim(regexp_replace(lower(coalesce(raw_data->>'review_text', review_text, '')), '\s+', ' ', 'g'))
+      || '|' ||
+    coalesce(raw_data->>'rating', rating::text, ''),
+    'sha1'
+  ), 'hex')
+)
+where external_id is null;
+
+-- Earlier scrapes inserted the same review again on every run; keep the oldest copy
+delete from public.reviews
+where id in (
+  select id
+  from (
+    select id,
+      row_number() over (partition by competitor_id, source, external_id order by created_at, id) as copy
+    from public.reviews
+  ) keyed
+  where copy > 1
+);
+
+create unique index if not exists reviews_competitor_source_external_id_key
+  on public.reviews (competitor_id, source, external_id);
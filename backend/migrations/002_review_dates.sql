@@ -0,0 +1,23 @@
+-- review_date becomes a real timestamp resolved from the relative phrase
+-- ("3 months ago") at scrape time, with a precision and uncertainty window.
+
+alter table public.reviews
+  add column if not exists review_date_precision text,
+  add column if not exists review_date_earliest timestamptz,
+  add column if not exists review_date_latest timestamptz;
+
+-- Keep the original strings in raw_data before the column changes type
+update public.reviews
+set raw_data = coalesce(raw_data, '{}'::jsonb) || jsonb_build_object('review_date', review_date)
+where review_date is not null
+  and not (coalesce(raw_data, '{}'::jsonb) ? 'review_date');
+
+alter table public.reviews
+  alter column review_date type timestamptz
+  using case
+    when review_date ~ '^\d{4}-\d{2}-\d{2}' then review_date::timestamptz
+    else null
+  end;
+
+create index if not exists reviews_competitor_review_date_idx
+  on public.reviews (competitor_id, review_date);
@@ -0,0 +1,10 @@
+-- Plan per business; it caps how many reviews a single scrape may collect.
+
+alter table public.businesses
+  add column if not exists plan text not null default 'free';
+
+alter table public.businesses
+  drop constraint if exists businesses_plan_check;
+
+alter table public.businesses
+  add constraint businesses_plan_check check (plan in ('free', 'pro', 'agency'));
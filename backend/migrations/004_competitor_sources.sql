@@ -0,0 +1,14 @@
+-- Extra review URLs per competitor (Yelp, Tripadvisor, Trustpilot, ...).
+-- competitors.google_maps_url stays the primary Google Maps source.
+
+create table if not exists public.competitor_sources (
+  id uuid primary key default gen_random_uuid(),
+  competitor_id uuid not null references public.competitors (id) on delete cascade,
+  source text not null,
+  url text not null,
+  created_at timestamptz not null default now(),
+  unique (competitor_id, url)
+);
+
+create index if not exists competitor_sources_competitor_id_idx
+  on public.competitor_sources (competitor_id);
@@ -0,0 +1,20 @@
+-- Place header data (official rating, review count, hours, ...) per scrape.
+
+create table if not exists public.competitor_snapshots (
+  id uuid primary key default gen_random_uuid(),
+  competitor_id uuid not null references public.competitors (id) on delete cascade,
+  source text not null default 'google_maps',
+  scraped_at timestamptz not null default now(),
+  name text,
+  rating numeric(2, 1),
+  review_count integer,
+  price_level text,
+  categories text[] not null default '{}',
+  address text,
+  phone text,
+  website text,
+  opening_hours jsonb
+);
+
+create index if not exists competitor_snapshots_competitor_scraped_at_idx
+  on public.competitor_snapshots (competitor_id, scraped_at desc);
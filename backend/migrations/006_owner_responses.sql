@@ -0,0 +1,7 @@
+-- The business's public reply to a review, kept apart from the review text.
+-- owner_response_date is resolved like review_date; the string as shown on
+-- the platform stays in raw_data.
+
+alter table public.reviews
+  add column if not exists owner_response_text text,
+  add column if not exists owner_response_date timestamptz;
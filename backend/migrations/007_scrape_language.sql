@@ -0,0 +1,5 @@
+-- UI language a review was scraped in ("en", "nl", ...); decides how its
+-- date phrase and rating label were worded. Null for rows scraped before.
+
+alter table public.reviews
+  add column if not exists scrape_language text;
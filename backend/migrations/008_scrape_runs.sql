@@ -0,0 +1,30 @@
+-- One row per scrape attempt of one review source, with enough diagnostics to
+-- tell why a run came back empty. Screenshots and HTML dumps of the run live
+-- on disk under backend/scrape-artifacts/<run id>/ and are listed in artifacts.
+
+create table if not exists public.scrape_runs (
+  id uuid primary key default gen_random_uuid(),
+  competitor_id uuid not null references public.competitors (id) on delete cascade,
+  source text not null,
+  url text not null,
+  mode text not null,
+  language text,
+  status text not null default 'running',
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  error_class text,
+  error_message text,
+  elements_found integer,
+  reviews_parsed integer,
+  reviews_scraped integer,
+  selector_strategy text,
+  stop_reason text,
+  inserted integer,
+  updated integer,
+  unchanged integer,
+  artifacts text[] not null default '{}',
+  constraint scrape_runs_status_check check (status in ('running', 'succeeded', 'failed'))
+);
+
+create index if not exists scrape_runs_competitor_started_at_idx
+  on public.scrape_runs (competitor_id, started_at desc);
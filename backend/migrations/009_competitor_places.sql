@@ -0,0 +1,12 @@
+-- Place identity taken from the competitor's Google Maps URL when it is
+-- added (see scrapers/googleMapsUrl.ts). google_maps_url itself now holds the
+-- canonical place URL instead of whatever link was pasted.
+
+alter table public.competitors
+  add column if not exists google_place_id text,
+  add column if not exists google_feature_id text,
+  add column if not exists latitude double precision,
+  add column if not exists longitude double precision;
+
+create index if not exists competitors_google_feature_id_idx
+  on public.competitors (google_feature_id);
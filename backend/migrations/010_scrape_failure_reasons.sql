@@ -0,0 +1,6 @@
+-- Machine-readable failure reason (timeout, blocked, consent_wall, ...) and
+-- the number of attempts a scrape run took, retries included.
+
+alter table public.scrape_runs
+  add column if not exists failure_reason text,
+  add column if not exists attempts integer not null default 1;
@@ -0,0 +1,24 @@
+-- Edits and removals seen across re-scrapes. A review whose rating or text
+-- changed gets an 'edited' revision with the old and new values; a review
+-- missing from a complete (full, unlimited) scrape gets removed_at and a
+-- 'removed' revision, cleared again ('restored') if it shows up later.
+
+alter table public.reviews
+  add column if not exists removed_at timestamptz;
+
+create table if not exists public.review_revisions (
+  id uuid primary key default gen_random_uuid(),
+  review_id uuid not null references public.reviews (id) on delete cascade,
+  competitor_id uuid not null references public.competitors (id) on delete cascade,
+  source text not null,
+  change_type text not null,
+  detected_at timestamptz not null default now(),
+  old_rating numeric,
+  new_rating numeric,
+  old_text text,
+  new_text text,
+  constraint review_revisions_change_type_check check (change_type in ('edited', 'removed', 'restored'))
+);
+
+create index if not exists review_revisions_competitor_detected_at_idx
+  on public.review_revisions (competitor_id, detected_at desc);
@@ -0,0 +1,7 @@
+-- Where the business itself is and what it is, so nearby competitors of the
+-- same category can be suggested (see discovery.ts).
+
+alter table public.businesses
+  add column if not exists category text,
+  add column if not exists latitude double precision,
+  add column if not exists longitude double precision;
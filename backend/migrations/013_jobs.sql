@@ -0,0 +1,30 @@
+-- Background jobs (scrapes, PDF reports) run by the worker loop in jobs.ts.
+-- Workers claim queued jobs with FOR UPDATE SKIP LOCKED; a failed job goes
+-- back to 'queued' with a later run_at until max_attempts, then to 'dead'.
+
+create table if not exists public.jobs (
+  id uuid primary key default gen_random_uuid(),
+  type text not null,
+  payload jsonb not null default '{}',
+  status text not null default 'queued',
+  attempts integer not null default 0,
+  max_attempts integer not null default 3,
+  run_at timestamptz not null default now(),
+  locked_at timestamptz,
+  locked_by text,
+  progress jsonb,
+  result jsonb,
+  last_error text,
+  created_at timestamptz not null default now(),
+  started_at timestamptz,
+  finished_at timestamptz,
+  constraint jobs_status_check check (status in ('queued', 'running', 'succeeded', 'dead'))
+);
+
+create index if not exists jobs_queued_run_at_idx
+  on public.jobs (run_at)
+  where status = 'queued';
+
+create index if not exists jobs_running_locked_at_idx
+  on public.jobs (locked_at)
+  where status = 'running';
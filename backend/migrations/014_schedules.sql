@@ -0,0 +1,39 @@
+-- Recurring scrapes and reports. A schedule belongs to a business and
+-- optionally one competitor (null = every competitor of the business).
+-- next_run_at is computed in the schedule's timezone (or the business's) with
+-- a per-schedule jitter offset, and claimed by the scheduler in scheduler.ts.
+
+alter table public.businesses
+  add column if not exists timezone text not null default 'Europe/Brussels';
+
+create table if not exists public.schedules (
+  id uuid primary key default gen_random_uuid(),
+  business_id uuid not null references public.businesses (id) on delete cascade,
+  competitor_id uuid references public.competitors (id) on delete cascade,
+  kind text not null,
+  frequency text not null,
+  day_of_week integer,
+  time_of_day text not null,
+  timezone text,
+  jitter_minutes integer not null default 15,
+  options jsonb not null default '{}',
+  enabled boolean not null default true,
+  next_run_at timestamptz,
+  last_run_at timestamptz,
+  last_job_ids uuid[] not null default '{}',
+  created_at timestamptz not null default now(),
+  constraint schedules_kind_check check (kind in ('scrape', 'report')),
+  constraint schedules_frequency_check check (frequency in ('daily', 'weekly')),
+  constraint schedules_day_of_week_check check (
+    (frequency = 'weekly' and day_of_week between 1 and 7)
+    or (frequency = 'daily' and day_of_week is null)
+  ),
+  constraint schedules_time_of_day_check check (time_of_day ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$')
+);
+
+create index if not exists schedules_due_idx
+  on public.schedules (next_run_at)
+  where enabled;
+
+create index if not exists schedules_business_id_idx
+  on public.schedules (business_id);
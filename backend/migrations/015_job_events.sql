@@ -0,0 +1,15 @@
+-- Progress events of background jobs (consent handled, n/N reviews loaded,
+-- rendering PDF, done, ...), streamed to clients by GET /jobs/:id/events.
+-- Kept in the database so any API instance can stream a job run by another.
+
+create table if not exists public.job_events (
+  id bigserial primary key,
+  job_id uuid not null references public.jobs (id) on delete cascade,
+  type text not null,
+  message text not null,
+  data jsonb not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists job_events_job_id_idx
+  on public.job_events (job_id, id);
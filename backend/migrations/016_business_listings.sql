@@ -0,0 +1,11 @@
+-- The business's own Google Maps listing. It is stored as a competitors row
+-- with is_self set, so it is scraped, scheduled and analysed like any
+-- competitor and can be compared with them (see comparison.ts). A business has
+-- at most one.
+
+alter table public.competitors
+  add column if not exists is_self boolean not null default false;
+
+create unique index if not exists competitors_self_per_business_idx
+  on public.competitors (business_id)
+  where is_self;
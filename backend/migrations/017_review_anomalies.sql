@@ -0,0 +1,6 @@
+-- How many reviews the reviewer had written when we first saw the review
+-- ("Local Guide · 42 reviews", "1 review"), where the platform shows it. Used
+-- with review dates and texts to flag suspicious reviews (see anomalies.ts).
+
+alter table public.reviews
+  add column if not exists reviewer_review_count integer;
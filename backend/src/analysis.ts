@@ -1,84 +1,89 @@
 import { pool } from "./db";
-import Sentiment from "sentiment";
-
-const sentiment = new Sentiment();
+import { analyzeAspects, type AspectSentiment } from "./aspects";
+import { loadPeerReviewTexts, rankKeywords, type KeywordInsight, type KeywordReview } from "./keywords";
+import { detectLanguage, stopwordsFor, tokenizeWords, type ReviewLanguage } from "./languages";
+import { scoreSentiment } from "./sentiment";
+import { getLatestCompetitorSnapshot } from "./snapshots";
 
 type ReviewRow = {
+  id: string;
   rating: number | null;
   review_text: string | null;
 };
 
+/**
+ * Which stored reviews an analysis covers. Dates are inclusive calendar days
+ * on the review date; null means no filter.
+ */
+export type AnalysisFilters = {
+  from: string | null; // YYYY-MM-DD
+  to: string | null;
+  source: string | null; // reviews.source, e.g. google_maps or import
+  min_rating: number | null;
+  max_rating: number | null;
+  limit: number | null; // newest reviews first; null analyzes every match
+  include_removed: boolean; // reviews no longer online (removed_at set) are left out by default
+};
+
+export const NO_ANALYSIS_FILTERS: AnalysisFilters = {
+  from: null,
+  to: null,
+  source: null,
+  min_rating: null,
+  max_rating: null,
+  limit: null,
+  include_removed: false,
+};
+
+export class AnalysisFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AnalysisFilterError";
+  }
+}
+
 export type CompetitorAnalysis = {
   competitor_id: string;
-  total_reviews: number;
+  filters: AnalysisFilters; // as applied, echoed in the report header
+  total_reviews: number; // rating-only reviews included
   avg_rating: number | null;
   rating_distribution: Record<string, number>;
+  // Percentages (0–100) of the reviews with text
   sentiment_breakdown: {
     positive: number;
     neutral: number;
     negative: number;
   };
-  top_keywords: string[];
+  top_keywords: string[]; // the most distinctive single words
+  keywords: KeywordInsight[]; // words and phrases, most distinctive first
+  phrases: KeywordInsight[]; // 2–3 word phrases only
+  // Reviews with text per detected language (en, nl, fr, unknown)
+  language_breakdown: Record<string, number>;
   top_positive_snippets: string[];
   top_negative_snippets: string[];
+  aspects: AspectSentiment[]; // most mentioned first
+  // Owner replies to every review matching the filters, limit aside (percentages 0–100)
+  response_rate: number | null;
+  median_response_delay_days: number | null;
+  negative_response_rate: number | null; // reviews rated 1–2
+  // Figures published on Google itself (latest snapshot), next to our sample
+  official: {
+    rating: number | null;
+    review_count: number | null;
+    scraped_at: string;
+  } | null;
 };
 
-const STOPWORDS = new Set([
-  "the",
-  "a",
-  "an",
-  "and",
-  "or",
-  "to",
-  "of",
-  "in",
-  "on",
-  "for",
-  "with",
-  "is",
-  "it",
-  "this",
-  "that",
-  "was",
-  "were",
-  "are",
-  "at",
-  "as",
-  "but",
-  "be",
-  "have",
-  "has",
-  "had",
-  "they",
-  "them",
-  "you",
-  "your",
-  "we",
-  "our",
-  "i",
-  "he",
-  "she",
-  "their",
-  "from",
-  "so",
-  "if",
-  "not",
-  "very",
-  "just",
-  "my",
-  "me",
-  "us",
-]);
-
-function tokenize(text: string): string[] {
-  return text
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, " ")
-    .split(/\s+/)
-    .filter((t) => t.length > 2 && !STOPWORDS.has(t));
+/**
+ * Keyword candidates of a review: its words minus the stopwords of its
+ * language (of every language when unknown) and very short words.
+ */
+export function tokenize(text: string, language: ReviewLanguage | null = null): string[] {
+  const stopwords = stopwordsFor(language);
+  return tokenizeWords(text).filter((t) => t.length > 2 && !stopwords.has(t));
 }
 
-function cleanReviewText(raw: string): string {
+export function cleanReviewText(raw: string): string {
   let text = raw;
 
   // Remove common UI noise words (Dutch + UI)
@@ -98,27 +103,186 @@ function cleanReviewText(raw: string): string {
   return text;
 }
 
+/**
+ * Validate filters from a query string or request body.
+ */
+export function parseAnalysisFilters(params: Record<string, unknown>): AnalysisFilters {
+  const text = (key: string) => {
+    const value = params[key];
+    return typeof value === "string" && value.trim() !== "" ? value.trim() : null;
+  };
+
+  const date = (key: "from" | "to") => {
+    const value = text(key);
+    if (value === null) return null;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(value))) {
+      throw new AnalysisFilterError(`${key} must be a date (YYYY-MM-DD)`);
+    }
+    return value;
+  };
+
+  const rating = (key: "min_rating" | "max_rating") => {
+    const value = text(key);
+    if (value === null) return null;
+    const n = Number(value);
+    if (!Number.isInteger(n) || n < 1 || n > 5) {
+      throw new AnalysisFilterError(`${key} must be an integer from 1 to 5`);
+    }
+    return n;
+  };
+
+  const filters: AnalysisFilters = {
+    from: date("from"),
+    to: date("to"),
+    source: text("source"),
+    min_rating: rating("min_rating"),
+    max_rating: rating("max_rating"),
+    limit: null,
+    include_removed: false,
+  };
+
+  const includeRemoved = params.include_removed;
+  if (includeRemoved === true || includeRemoved === "true") {
+    filters.include_removed = true;
+  } else if (includeRemoved !== undefined && includeRemoved !== false && includeRemoved !== "false") {
+    throw new AnalysisFilterError("include_removed must be true or false");
+  }
+
+  const limit = text("limit");
+  if (limit !== null) {
+    filters.limit = Number(limit);
+    if (!Number.isInteger(filters.limit) || filters.limit < 1) {
+      throw new AnalysisFilterError("limit must be a positive integer");
+    }
+  }
+
+  if (filters.from && filters.to && filters.from > filters.to) {
+    throw new AnalysisFilterError("from must not be after to");
+  }
+  if (
+    filters.min_rating !== null &&
+    filters.max_rating !== null &&
+    filters.min_rating > filters.max_rating
+  ) {
+    throw new AnalysisFilterError("min_rating must not be above max_rating");
+  }
+  return filters;
+}
+
+/**
+ * WHERE conditions for the filters (all but the limit), appending their
+ * values to `params`. $1 is the competitor id. Reviews marked removed are
+ * left out unless include_removed is set.
+ */
+export function filterConditions(filters: AnalysisFilters, params: unknown[]): string {
+  const conditions = ["competitor_id = $1"];
+  const add = (sql: string, value: unknown) => {
+    params.push(value);
+    conditions.push(sql.replace("?", `$${params.length}`));
+  };
+
+  if (filters.from) add("review_date >= ?::date", filters.from);
+  if (filters.to) add("review_date < ?::date + 1", filters.to);
+  if (filters.source) add("source = ?", filters.source);
+  if (filters.min_rating !== null) add("rating >= ?", filters.min_rating);
+  if (filters.max_rating !== null) add("rating <= ?", filters.max_rating);
+  if (!filters.include_removed) conditions.push("removed_at IS NULL");
+  return conditions.join(" AND ");
+}
+
+type ResponseStats = Pick<
+  CompetitorAnalysis,
+  "response_rate" | "median_response_delay_days" | "negative_response_rate"
+>;
+
+/**
+ * How attentive a competitor is: the share of reviews with an owner reply,
+ * the share of 1–2 star reviews with one, and the median days between review
+ * and reply. Both dates are estimates, so negative delays count as 0.
+ */
+async function loadResponseStats(
+  competitorId: string,
+  filters: AnalysisFilters
+): Promise<ResponseStats> {
+  const params: unknown[] = [competitorId];
+  const where = filterConditions(filters, params);
+
+  const { rows } = await pool.query<{
+    total: number;
+    responded: number;
+    negative_total: number;
+    negative_responded: number;
+    median_delay_days: number | null;
+  }>(
+    `
+    SELECT
+      count(*)::int AS total,
+      count(owner_response_text)::int AS responded,
+      count(*) FILTER (WHERE rating <= 2)::int AS negative_total,
+      count(owner_response_text) FILTER (WHERE rating <= 2)::int AS negative_responded,
+      percentile_cont(0.5) WITHIN GROUP (
+        ORDER BY GREATEST(0, EXTRACT(EPOCH FROM owner_response_date - review_date) / 86400)
+      ) FILTER (WHERE owner_response_date IS NOT NULL AND review_date IS NOT NULL)
+        AS median_delay_days
+    FROM public.reviews
+    WHERE ${where}
+    `,
+    params
+  );
+
+  const stats = rows[0];
+  const pct = (part: number, whole: number) =>
+    whole > 0 ? Math.round((part / whole) * 100) : null;
+
+  return {
+    response_rate: stats ? pct(stats.responded, stats.total) : null,
+    median_response_delay_days:
+      stats?.median_delay_days != null
+        ? parseFloat(Number(stats.median_delay_days).toFixed(1))
+        : null,
+    negative_response_rate: stats ? pct(stats.negative_responded, stats.negative_total) : null,
+  };
+}
 
+/**
+ * Analyze the competitor's stored reviews that match `filters`, newest first.
+ */
 export async function analyzeCompetitor(
-  competitorId: string
+  competitorId: string,
+  filters: AnalysisFilters = NO_ANALYSIS_FILTERS
 ): Promise<CompetitorAnalysis> {
+  const params: unknown[] = [competitorId];
+  const where = filterConditions(filters, params);
+  params.push(filters.limit);
+
   const { rows } = await pool.query<ReviewRow>(
     `
-    SELECT rating, review_text
+    SELECT id, rating, review_text
     FROM public.reviews
-    WHERE competitor_id = $1
-      AND review_text IS NOT NULL
-    ORDER BY created_at DESC
-    LIMIT 5
+    WHERE ${where}
+    ORDER BY review_date DESC NULLS LAST, created_at DESC
+    LIMIT $${params.length}
     `,
-    [competitorId]
+    params
   );
 
   const totalReviews = rows.length;
 
+  const snapshot = await getLatestCompetitorSnapshot(competitorId);
+  const official = snapshot
+    ? {
+        rating: snapshot.rating,
+        review_count: snapshot.review_count,
+        scraped_at: new Date(snapshot.scraped_at).toISOString(),
+      }
+    : null;
+
+  const responseStats = await loadResponseStats(competitorId, filters);
+
   if (totalReviews === 0) {
     return {
       competitor_id: competitorId,
+      filters,
       total_reviews: 0,
       avg_rating: null,
       rating_distribution: {},
@@ -128,13 +292,20 @@ export async function analyzeCompetitor(
         negative: 0,
       },
       top_keywords: [],
+      keywords: [],
+      phrases: [],
+      language_breakdown: {},
       top_positive_snippets: [],
       top_negative_snippets: [],
+      aspects: [],
+      ...responseStats,
+      official,
     };
   }
 
-  // Rating stats
+  // Rating stats, over the reviews with a valid star rating
   let ratingSum = 0;
+  let ratedCount = 0;
   const ratingDistribution: Record<string, number> = {
     "1": 0,
     "2": 0,
@@ -143,7 +314,8 @@ export async function analyzeCompetitor(
     "5": 0,
   };
 
-  // Sentiment counters
+  // Sentiment counters, over the reviews with text
+  let textCount = 0;
   let posCount = 0;
   let neuCount = 0;
   let negCount = 0;
@@ -154,56 +326,59 @@ export async function analyzeCompetitor(
   const negativeReviews: ScoredReview[] = [];
 
   // Keywords
-  const keywordFreq: Record<string, number> = {};
+  const keywordReviews: KeywordReview[] = [];
+  const texts: string[] = [];
+  const languageCounts: Record<string, number> = {};
 
   for (const row of rows) {
     const rating = row.rating ?? 0;
-    const rawText = row.review_text ?? "";
-    const text = cleanReviewText(rawText);
 
     // Rating stats
     if (rating >= 1 && rating <= 5) {
       ratingSum += rating;
+      ratedCount++;
       ratingDistribution[String(rating)] =
         (ratingDistribution[String(rating)] || 0) + 1;
     }
 
+    // Rating-only reviews count above but have nothing for the text passes
+    if (!row.review_text) continue;
+    textCount++;
+    const text = cleanReviewText(row.review_text);
+    const language = detectLanguage(text);
+    languageCounts[language ?? "unknown"] = (languageCounts[language ?? "unknown"] || 0) + 1;
+    texts.push(text);
+    keywordReviews.push({ id: row.id, text, language });
+
     // Sentiment using text
-    const sentimentResult = sentiment.analyze(text);
-    const score = sentimentResult.score;
+    const { label, score } = scoreSentiment(text, language);
 
-    if (score > 1) {
+    if (label === "positive") {
       posCount++;
       positiveReviews.push({ text, score, rating });
-    } else if (score < -1) {
+    } else if (label === "negative") {
       negCount++;
       negativeReviews.push({ text, score, rating });
     } else {
       neuCount++;
     }
-
-    // Keywords
-    const tokens = tokenize(text);
-    for (const token of tokens) {
-      keywordFreq[token] = (keywordFreq[token] || 0) + 1;
-    }
   }
 
   const avgRating =
-    totalReviews > 0 && ratingSum > 0
-      ? parseFloat((ratingSum / totalReviews).toFixed(2))
-      : null;
+    ratedCount > 0 ? parseFloat((ratingSum / ratedCount).toFixed(2)) : null;
 
-  // Sentiment breakdown as percentages (0–100)
-  const posPct = Math.round((posCount / totalReviews) * 100);
-  const neuPct = Math.round((neuCount / totalReviews) * 100);
-  const negPct = Math.round((negCount / totalReviews) * 100);
+  // Sentiment breakdown as percentages (0–100) of the reviews with text
+  const pct = (count: number) => (textCount > 0 ? Math.round((count / textCount) * 100) : 0);
+  const posPct = pct(posCount);
+  const neuPct = pct(neuCount);
+  const negPct = pct(negCount);
 
-  // Top keywords
-  const topKeywords = Object.entries(keywordFreq)
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 15)
-    .map(([word]) => word);
+  // Keywords and phrases, distinctive against the business's other competitors
+  const peerReviews = (await loadPeerReviewTexts(competitorId)).map((raw) => {
+    const text = cleanReviewText(raw);
+    return { text, language: detectLanguage(text) };
+  });
+  const rankedKeywords = rankKeywords(keywordReviews, peerReviews);
 
   // Sort snippets: most positive / most negative
   positiveReviews.sort((a, b) => b.score - a.score);
@@ -219,6 +394,7 @@ export async function analyzeCompetitor(
 
   return {
     competitor_id: competitorId,
+    filters,
     total_reviews: totalReviews,
     avg_rating: avgRating,
     rating_distribution: ratingDistribution,
@@ -227,8 +403,17 @@ export async function analyzeCompetitor(
       neutral: neuPct,
       negative: negPct,
     },
-    top_keywords: topKeywords,
+    top_keywords: rankedKeywords
+      .filter((k) => k.words === 1)
+      .slice(0, 15)
+      .map((k) => k.term),
+    keywords: rankedKeywords.slice(0, 20),
+    phrases: rankedKeywords.filter((k) => k.words > 1).slice(0, 15),
+    language_breakdown: languageCounts,
     top_positive_snippets,
     top_negative_snippets,
+    aspects: analyzeAspects(texts),
+    ...responseStats,
+    official,
   };
 }
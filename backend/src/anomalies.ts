@@ -0,0 +1,394 @@
+import { pool } from "./db";
+import { cleanReviewText, filterConditions, type AnalysisFilters } from "./analysis";
+import { detectLanguage, tokenizeWords } from "./languages";
+import { scoreSentiment } from "./sentiment";
+
+/**
+ * Signals that a competitor's reviews may not all be genuine: bursts of
+ * reviews, near-duplicate texts, reviewers with a single review, spikes of
+ * 5★ ratings without text, and ratings that contradict the text. These are
+ * hints for a human to look at, each with the reviews behind it, not proof.
+ */
+
+export type AnomalySeverity = "low" | "medium" | "high";
+
+type SignalBase = { severity: AnomalySeverity; summary: string };
+
+export type BurstEvidence = {
+  start: string; // first and last review date in the window
+  end: string;
+  reviews: number;
+  expected: number; // reviews in such a window at the competitor's usual pace
+  five_star_share: number; // %
+  review_ids: string[];
+};
+
+export type DuplicateCluster = {
+  review_ids: string[];
+  reviewers: number; // different reviewer names
+  similarity: number; // % word-pair overlap, lowest link in the cluster
+  text: string; // one of the texts
+};
+
+export type MismatchEvidence = {
+  review_id: string;
+  rating: number;
+  sentiment_score: number;
+  text: string;
+};
+
+export type AnomalySignal =
+  | (SignalBase & { type: "review_burst"; evidence: BurstEvidence[] })
+  | (SignalBase & { type: "near_duplicates"; evidence: DuplicateCluster[] })
+  | (SignalBase & {
+      type: "single_review_reviewers";
+      evidence: {
+        reviews_with_count: number; // reviews whose reviewer's review count we know
+        five_star_share: number; // % of those 5★ reviews by a reviewer with one review
+        other_share: number | null; // the same for 1–4★
+        review_ids: string[];
+      };
+    })
+  | (SignalBase & { type: "rating_only_spike"; evidence: BurstEvidence[] })
+  | (SignalBase & { type: "rating_text_mismatch"; evidence: MismatchEvidence[] });
+
+export type AnomalySignalType = AnomalySignal["type"];
+
+export type ReviewAnomalies = {
+  competitor_id: string;
+  filters: AnalysisFilters;
+  reviews_checked: number;
+  dated_reviews: number; // dated to within a week, the ones bursts are looked for in
+  suspicion_level: AnomalySeverity | "none"; // the most severe signal
+  signals: AnomalySignal[];
+  flagged_review_ids: string[]; // every review in some signal's evidence
+};
+
+type AnomalyRow = {
+  id: string;
+  rating: number | null;
+  review_text: string | null;
+  review_date: Date | null;
+  review_date_precision: string | null;
+  reviewer_name: string | null;
+  reviewer_review_count: number | null;
+};
+
+type DatedReview = { id: string; rating: number | null; date: Date; text: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Relative dates coarser than a week ("2 months ago") put every review of
+// that month on the same day, which would look like a burst
+const PRECISE_DATE_PRECISIONS = new Set(["exact", "minute", "hour", "day", "week"]);
+const BURST_WINDOW_DAYS = 7;
+const BURST_FACTOR = 3; // times the usual number of reviews in a window
+const MIN_BURST_REVIEWS = 5;
+const MIN_SPIKE_REVIEWS = 4;
+// The usual pace is measured over at least this many days
+const MIN_BASELINE_DAYS = 30;
+
+const MIN_DUPLICATE_WORDS = 6;
+const DUPLICATE_SIMILARITY = 0.7;
+const MAX_DUPLICATE_CHECK = 1000; // newest reviews compared pairwise
+
+const MIN_KNOWN_REVIEWER_COUNTS = 10;
+const MIN_SINGLE_REVIEWER_SHARE = 0.3;
+
+const MIN_MISMATCH_SCORE = 3;
+const MIN_MISMATCHES = 3;
+
+const MAX_EVIDENCE = 10;
+const MAX_EVIDENCE_IDS = 20;
+const SEVERITY_ORDER: AnomalySeverity[] = ["low", "medium", "high"];
+
+const pct = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+const day = (date: Date) => date.toISOString().slice(0, 10);
+const excerpt = (text: string) => (text.length > 200 ? `${text.slice(0, 197)}...` : text);
+
+/**
+ * Windows of BURST_WINDOW_DAYS holding at least BURST_FACTOR times the usual
+ * number of reviews (and `minReviews`). `reviews` must be sorted by date.
+ */
+function findBursts(
+  reviews: DatedReview[],
+  expected: number,
+  minReviews: number
+): BurstEvidence[] {
+  const threshold = Math.max(minReviews, Math.ceil(expected * BURST_FACTOR));
+  const bursts: BurstEvidence[] = [];
+
+  let start = 0;
+  while (start < reviews.length) {
+    const first = reviews[start]!.date.getTime();
+    let end = start;
+    while (end < reviews.length && reviews[end]!.date.getTime() - first < BURST_WINDOW_DAYS * DAY_MS) {
+      end++;
+    }
+    if (end - start < threshold) {
+      start++;
+      continue;
+    }
+
+    const window = reviews.slice(start, end);
+    bursts.push({
+      start: day(window[0]!.date),
+      end: day(window[window.length - 1]!.date),
+      reviews: window.length,
+      expected: parseFloat(expected.toFixed(1)),
+      five_star_share: pct(window.filter((r) => r.rating === 5).length, window.length),
+      review_ids: window.slice(0, MAX_EVIDENCE_IDS).map((r) => r.id),
+    });
+    start = end;
+  }
+  return bursts;
+}
+
+function detectBursts(dated: DatedReview[], spanDays: number): AnomalySignal | null {
+  const expected = (dated.length / spanDays) * BURST_WINDOW_DAYS;
+  const bursts = findBursts(dated, expected, MIN_BURST_REVIEWS);
+  if (bursts.length === 0) return null;
+
+  // A wave of mixed ratings is more likely an event or a mention in the press
+  const fiveStarHeavy = bursts.filter((b) => b.five_star_share >= 80);
+  const largest = [...bursts].sort((a, b) => b.reviews - a.reviews)[0]!;
+  return {
+    type: "review_burst",
+    severity:
+      fiveStarHeavy.length === 0
+        ? "low"
+        : fiveStarHeavy.some((b) => b.reviews >= 2 * MIN_BURST_REVIEWS)
+        ? "high"
+        : "medium",
+    summary: `${bursts.length} burst(s) of reviews; the largest has ${largest.reviews} reviews between ${largest.start} and ${largest.end} where about ${largest.expected} would be usual, ${largest.five_star_share}% of them 5★.`,
+    evidence: bursts.slice(0, MAX_EVIDENCE),
+  };
+}
+
+function detectRatingOnlySpikes(dated: DatedReview[], spanDays: number): AnomalySignal | null {
+  const ratingOnly = dated.filter((r) => r.rating === 5 && r.text === "");
+  const expected = (ratingOnly.length / spanDays) * BURST_WINDOW_DAYS;
+  const spikes = findBursts(ratingOnly, expected, MIN_SPIKE_REVIEWS);
+  if (spikes.length === 0) return null;
+
+  const largest = [...spikes].sort((a, b) => b.reviews - a.reviews)[0]!;
+  return {
+    type: "rating_only_spike",
+    severity: largest.reviews >= 2 * MIN_SPIKE_REVIEWS ? "high" : "medium",
+    summary: `${largest.reviews} 5★ ratings without any text between ${largest.start} and ${largest.end}, where about ${largest.expected} would be usual.`,
+    evidence: spikes.slice(0, MAX_EVIDENCE),
+  };
+}
+
+// Word pairs of a text, so reordered or lightly edited copies still overlap
+function wordPairs(text: string): Set<string> | null {
+  const words = tokenizeWords(text);
+  if (words.length < MIN_DUPLICATE_WORDS) return null;
+  const pairs = new Set<string>();
+  for (let i = 0; i + 1 < words.length; i++) pairs.add(`${words[i]} ${words[i + 1]}`);
+  return pairs;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Groups of texts by different reviewers that are (nearly) the same. The same
+ * reviewer posting one text on two platforms is left alone.
+ */
+function detectNearDuplicates(rows: AnomalyRow[]): AnomalySignal | null {
+  const candidates = rows.slice(0, MAX_DUPLICATE_CHECK).flatMap((row) => {
+    const text = cleanReviewText(row.review_text ?? "");
+    const pairs = wordPairs(text);
+    return pairs ? [{ row, text, pairs, reviewer: (row.reviewer_name ?? "").trim().toLowerCase() }] : [];
+  });
+
+  // Union-find over the linked pairs, remembering the weakest link per cluster
+  const parent = candidates.map((_c, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i]!)));
+  const weakest = new Map<number, number>();
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const a = candidates[i]!;
+      const b = candidates[j]!;
+      if (a.reviewer !== "" && a.reviewer === b.reviewer) continue;
+      const similarity = jaccard(a.pairs, b.pairs);
+      if (similarity < DUPLICATE_SIMILARITY) continue;
+
+      const [ra, rb] = [root(i), root(j)];
+      const lowest = Math.min(similarity, weakest.get(ra) ?? 1, weakest.get(rb) ?? 1);
+      parent[rb] = ra;
+      weakest.set(ra, lowest);
+    }
+  }
+
+  const clusters = new Map<number, number[]>();
+  candidates.forEach((_c, i) => {
+    const r = root(i);
+    clusters.set(r, [...(clusters.get(r) ?? []), i]);
+  });
+
+  const evidence: DuplicateCluster[] = [...clusters.entries()]
+    .filter(([, members]) => members.length > 1)
+    .map(([r, members]) => ({
+      review_ids: members.slice(0, MAX_EVIDENCE_IDS).map((i) => candidates[i]!.row.id),
+      reviewers: new Set(members.map((i) => candidates[i]!.reviewer)).size,
+      similarity: Math.round((weakest.get(r) ?? 1) * 100),
+      text: excerpt(candidates[members[0]!]!.text),
+    }))
+    .sort((a, b) => b.review_ids.length - a.review_ids.length);
+  if (evidence.length === 0) return null;
+
+  const duplicated = evidence.reduce((sum, c) => sum + c.review_ids.length, 0);
+  return {
+    type: "near_duplicates",
+    severity: evidence.length >= 3 || evidence[0]!.review_ids.length >= 3 ? "high" : "medium",
+    summary: `${duplicated} reviews by different reviewers fall into ${evidence.length} group(s) of (nearly) identical texts.`,
+    evidence: evidence.slice(0, MAX_EVIDENCE),
+  };
+}
+
+/**
+ * 5★ reviews written by accounts with no other review, compared with the
+ * 1–4★ ones. Needs the reviewer counts only some platforms show.
+ */
+function detectSingleReviewReviewers(rows: AnomalyRow[]): AnomalySignal | null {
+  const known = rows.filter((r) => r.reviewer_review_count !== null && r.rating !== null);
+  if (known.length < MIN_KNOWN_REVIEWER_COUNTS) return null;
+
+  const fiveStar = known.filter((r) => r.rating === 5);
+  const other = known.filter((r) => r.rating !== 5);
+  const fiveStarSingles = fiveStar.filter((r) => r.reviewer_review_count === 1);
+  const fiveStarShare = fiveStar.length > 0 ? fiveStarSingles.length / fiveStar.length : 0;
+  const otherShare =
+    other.length > 0 ? other.filter((r) => r.reviewer_review_count === 1).length / other.length : null;
+
+  if (fiveStar.length < MIN_BURST_REVIEWS || fiveStarShare < MIN_SINGLE_REVIEWER_SHARE) return null;
+  if (otherShare !== null && fiveStarShare < 2 * otherShare) return null;
+
+  return {
+    type: "single_review_reviewers",
+    severity: fiveStarShare >= 0.5 ? "high" : "medium",
+    summary: `${pct(fiveStarSingles.length, fiveStar.length)}% of the 5★ reviews come from accounts with no other review${
+      otherShare !== null ? `, against ${Math.round(otherShare * 100)}% of the 1–4★ ones` : ""
+    }.`,
+    evidence: {
+      reviews_with_count: known.length,
+      five_star_share: pct(fiveStarSingles.length, fiveStar.length),
+      other_share: otherShare !== null ? Math.round(otherShare * 100) : null,
+      review_ids: fiveStarSingles.slice(0, MAX_EVIDENCE_IDS).map((r) => r.id),
+    },
+  };
+}
+
+// 4–5★ reviews with a clearly negative text, 1–2★ ones with a clearly positive text
+function detectRatingTextMismatches(rows: AnomalyRow[]): AnomalySignal | null {
+  const withText = rows.filter((r) => r.rating !== null && r.review_text);
+  const mismatches: MismatchEvidence[] = [];
+  for (const row of withText) {
+    const text = cleanReviewText(row.review_text!);
+    if (tokenizeWords(text).length < 3) continue;
+    const { score } = scoreSentiment(text, detectLanguage(text));
+    const rating = row.rating!;
+    if ((rating >= 4 && score <= -MIN_MISMATCH_SCORE) || (rating <= 2 && score >= MIN_MISMATCH_SCORE)) {
+      mismatches.push({ review_id: row.id, rating, sentiment_score: score, text: excerpt(text) });
+    }
+  }
+  if (mismatches.length < MIN_MISMATCHES) return null;
+
+  const share = pct(mismatches.length, withText.length);
+  return {
+    type: "rating_text_mismatch",
+    severity: share >= 10 ? "medium" : "low",
+    summary: `${mismatches.length} reviews (${share}%) have a star rating that contradicts their text.`,
+    evidence: mismatches
+      .sort((a, b) => Math.abs(b.sentiment_score) - Math.abs(a.sentiment_score))
+      .slice(0, MAX_EVIDENCE),
+  };
+}
+
+/**
+ * Look for suspicious patterns in the competitor's reviews matching `filters`.
+ */
+export async function detectReviewAnomalies(
+  competitorId: string,
+  filters: AnalysisFilters
+): Promise<ReviewAnomalies> {
+  const params: unknown[] = [competitorId];
+  const where = filterConditions(filters, params);
+  params.push(filters.limit);
+
+  const { rows } = await pool.query<AnomalyRow>(
+    `
+    SELECT id, rating, review_text, review_date, review_date_precision,
+           reviewer_name, reviewer_review_count
+    FROM public.reviews
+    WHERE ${where}
+    ORDER BY review_date DESC NULLS LAST, created_at DESC
+    LIMIT $${params.length}
+    `,
+    params
+  );
+
+  const dated: DatedReview[] = rows
+    .filter((r) => r.review_date && PRECISE_DATE_PRECISIONS.has(r.review_date_precision ?? ""))
+    .map((r) => ({
+      id: r.id,
+      rating: r.rating === null ? null : Number(r.rating),
+      date: new Date(r.review_date!),
+      text: cleanReviewText(r.review_text ?? ""),
+    }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  const spanDays =
+    dated.length > 0
+      ? Math.max(
+          MIN_BASELINE_DAYS,
+          (dated[dated.length - 1]!.date.getTime() - dated[0]!.date.getTime()) / DAY_MS
+        )
+      : MIN_BASELINE_DAYS;
+
+  const signals = [
+    detectBursts(dated, spanDays),
+    detectNearDuplicates(rows),
+    detectSingleReviewReviewers(rows),
+    detectRatingOnlySpikes(dated, spanDays),
+    detectRatingTextMismatches(rows),
+  ].filter((s): s is AnomalySignal => s !== null);
+
+  const flagged = new Set<string>();
+  for (const signal of signals) {
+    for (const id of evidenceReviewIds(signal)) flagged.add(id);
+  }
+
+  return {
+    competitor_id: competitorId,
+    filters,
+    reviews_checked: rows.length,
+    dated_reviews: dated.length,
+    suspicion_level: signals.reduce<AnomalySeverity | "none">(
+      (level, s) =>
+        level === "none" || SEVERITY_ORDER.indexOf(s.severity) > SEVERITY_ORDER.indexOf(level)
+          ? s.severity
+          : level,
+      "none"
+    ),
+    signals,
+    flagged_review_ids: [...flagged],
+  };
+}
+
+function evidenceReviewIds(signal: AnomalySignal): string[] {
+  switch (signal.type) {
+    case "review_burst":
+    case "rating_only_spike":
+    case "near_duplicates":
+      return signal.evidence.flatMap((e) => e.review_ids);
+    case "single_review_reviewers":
+      return signal.evidence.review_ids;
+    case "rating_text_mismatch":
+      return signal.evidence.map((e) => e.review_id);
+  }
+}
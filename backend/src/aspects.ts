@@ -0,0 +1,285 @@
+import fs from "fs";
+import { detectLanguage, type ReviewLanguage } from "./languages";
+import { scoreSentiment } from "./sentiment";
+
+/**
+ * Aspect-based sentiment: which parts of the experience (service, price,
+ * food, ...) reviews talk about, and whether what they say about each is
+ * positive or negative.
+ *
+ * An aspect is recognised from its terms ("waiter", "bediening") or from
+ * opinion words that only apply to it ("overpriced", "vies"). Each sentence
+ * (or clause, split on "but" / "maar") is scored with the review sentiment
+ * scorer plus the aspect's own opinion words, and credited to every aspect it
+ * mentions.
+ *
+ * The built-in lexicon below can be extended or overridden per aspect with a
+ * JSON file of the same shape, named by ASPECT_LEXICON_FILE.
+ */
+
+export type AspectLanguage = "en" | "nl";
+
+export type AspectDefinition = {
+  label: string;
+  // Words that name the aspect; a trailing * matches any ending ("wacht*")
+  terms: Record<AspectLanguage, string[]>;
+  // Opinion words specific to the aspect, on top of the general sentiment score
+  positive: Record<AspectLanguage, string[]>;
+  negative: Record<AspectLanguage, string[]>;
+};
+
+export type AspectLexicon = Record<string, AspectDefinition>;
+
+export type AspectSentiment = {
+  aspect: string;
+  label: string;
+  mentions: number; // reviews mentioning the aspect
+  positive: number; // of those, reviews positive about it
+  neutral: number;
+  negative: number;
+  net_sentiment: number; // (positive − negative) / mentions, −100 … 100
+  negative_examples: string[]; // sentences about the aspect from negative reviews
+};
+
+export const DEFAULT_ASPECT_LEXICON: AspectLexicon = {
+  service: {
+    label: "Service",
+    terms: {
+      en: ["service", "staff", "waiter*", "waitress*", "server*", "employee*", "owner", "manager", "personnel", "host", "hostess", "bartender*"],
+      nl: ["service", "bediening", "personeel", "ober*", "serveerster*", "medewerker*", "eigenaar", "uitbater", "zaakvoerder", "gastvrouw*", "gastheer"],
+    },
+    positive: {
+      en: ["friendly", "helpful", "attentive", "welcoming", "polite", "courteous"],
+      nl: ["vriendelijk*", "behulpzaam", "attent", "gastvrij*", "beleefd*", "hartelijk*"],
+    },
+    negative: {
+      en: ["rude", "unfriendly", "impolite", "arrogant", "ignored", "unhelpful"],
+      nl: ["onvriendelijk*", "onbeleefd*", "nors*", "arrogant*", "genegeerd", "onbeschoft*"],
+    },
+  },
+  price: {
+    label: "Price",
+    terms: {
+      en: ["price*", "pricing", "cost", "costs", "value", "bill", "money", "euro", "euros"],
+      nl: ["prijs", "prijzen", "prijs-kwaliteit*", "kost", "kosten", "kostte", "rekening", "geld", "euro"],
+    },
+    positive: {
+      en: ["cheap", "affordable", "reasonable", "bargain", "inexpensive"],
+      nl: ["goedkoop", "goedkope", "betaalbaar*", "schappelijk*", "democratisch*"],
+    },
+    negative: {
+      en: ["expensive", "overpriced", "pricey", "rip-off", "ripoff", "overcharged"],
+      nl: ["duur", "dure", "duurder", "prijzig*", "overprijsd", "afzetterij", "te veel betaald"],
+    },
+  },
+  food: {
+    label: "Food",
+    terms: {
+      en: ["food", "meal*", "dish*", "pizza*", "burger*", "fries", "menu", "portion*", "taste*", "flavo*", "dessert*", "breakfast", "lunch", "dinner"],
+      nl: ["eten", "maaltijd*", "gerecht*", "pizza*", "burger*", "friet*", "frieten", "menu", "portie*", "smaak", "smaakt", "dessert*", "ontbijt", "lunch", "diner", "snack*"],
+    },
+    positive: {
+      en: ["delicious", "tasty", "fresh", "yummy", "flavorful", "flavourful"],
+      nl: ["lekker*", "heerlijk*", "vers", "verse", "smakelijk*"],
+    },
+    negative: {
+      en: ["bland", "tasteless", "cold", "soggy", "burnt", "undercooked", "stale", "greasy"],
+      nl: ["smakeloos", "flauw*", "koud", "koude", "slap", "slappe", "aangebrand*", "vettig*", "oudbakken"],
+    },
+  },
+  waiting_time: {
+    label: "Waiting time",
+    terms: {
+      en: ["wait*", "queue*", "delay*", "took ages", "waiting time"],
+      nl: ["wacht*", "wachttijd*", "aanschuiven", "vertraging*"],
+    },
+    positive: {
+      en: ["quick", "fast", "quickly", "promptly", "no wait"],
+      nl: ["snel", "snelle", "vlot", "vlotte", "meteen"],
+    },
+    negative: {
+      en: ["slow", "forever", "took ages", "too long"],
+      nl: ["traag", "trage", "lang wachten", "te lang", "eeuwig*"],
+    },
+  },
+  cleanliness: {
+    label: "Cleanliness",
+    terms: {
+      en: ["clean*", "hygien*", "toilet*", "restroom*", "bathroom*"],
+      nl: ["hygiën*", "toilet*", "wc", "netheid", "properheid"],
+    },
+    positive: {
+      en: ["clean", "spotless", "tidy", "neat"],
+      nl: ["proper", "propere", "schoon", "schone", "nette", "verzorgd*"],
+    },
+    negative: {
+      en: ["dirty", "filthy", "sticky", "smelly", "unhygienic", "disgusting"],
+      nl: ["vuil*", "vies", "vieze", "smerig*", "plakkerig*", "onhygiënisch*", "stinkt", "stonk"],
+    },
+  },
+};
+
+// Words that flip an opinion word shortly after them ("not clean", "niet duur")
+const NEGATIONS = new Set(["not", "no", "never", "isn't", "wasn't", "aren't", "niet", "geen", "nooit"]);
+const NEGATION_WINDOW = 3;
+// Extra score of an aspect opinion word, on the AFINN scale (−5 … 5)
+const OPINION_WORD_SCORE = 2;
+const NEGATIVE_EXAMPLES_PER_ASPECT = 3;
+
+let lexicon: AspectLexicon | null = null;
+
+/**
+ * The aspect lexicon in use: the built-in one, with the aspects of the
+ * ASPECT_LEXICON_FILE JSON (if set) added or replacing built-in ones.
+ */
+export function getAspectLexicon(): AspectLexicon {
+  if (lexicon) return lexicon;
+
+  lexicon = DEFAULT_ASPECT_LEXICON;
+  const file = process.env.ASPECT_LEXICON_FILE;
+  if (file) {
+    try {
+      const custom = JSON.parse(fs.readFileSync(file, "utf8")) as AspectLexicon;
+      lexicon = { ...DEFAULT_ASPECT_LEXICON, ...custom };
+    } catch (error) {
+      console.error(`✗ Could not load aspect lexicon ${file}, using the built-in one:`, error);
+    }
+  }
+  return lexicon;
+}
+
+type CompiledAspect = {
+  key: string;
+  label: string;
+  terms: RegExp[];
+  positive: RegExp[];
+  negative: RegExp[];
+};
+
+function termPattern(term: string): RegExp {
+  const body = term
+    .trim()
+    .split(/\s+/)
+    .map((word) => word.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*$/, "[\\p{L}\\p{N}-]*"))
+    .join("\\s+");
+  return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, "giu");
+}
+
+const compiledCache = new WeakMap<AspectLexicon, CompiledAspect[]>();
+
+function compileLexicon(aspects: AspectLexicon): CompiledAspect[] {
+  const cached = compiledCache.get(aspects);
+  if (cached) return cached;
+
+  const all = (words: Partial<Record<AspectLanguage, string[]>> | undefined) =>
+    Object.values(words ?? {}).flat().map(termPattern);
+  const compiled = Object.entries(aspects).map(([key, def]) => ({
+    key,
+    label: def.label,
+    terms: all(def.terms),
+    positive: all(def.positive),
+    negative: all(def.negative),
+  }));
+  compiledCache.set(aspects, compiled);
+  return compiled;
+}
+
+/**
+ * Sentences, further split before contrasting clauses ("… but the service
+ * was slow"), so each part can be scored on its own.
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/[.!?;\n]+|,?\s+(?=(?:but|however|although|though|maar|echter|alleen)\s)/i)
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+}
+
+// Whether a negation appears in the few words before `index`
+function isNegated(sentence: string, index: number): boolean {
+  const before = sentence.slice(0, index).toLowerCase().split(/\s+/).filter(Boolean);
+  return before.slice(-NEGATION_WINDOW).some((word) => NEGATIONS.has(word));
+}
+
+function opinionScore(sentence: string, patterns: RegExp[], sign: 1 | -1): number {
+  let score = 0;
+  for (const pattern of patterns) {
+    for (const match of sentence.matchAll(pattern)) {
+      score += (isNegated(sentence, match.index ?? 0) ? -sign : sign) * OPINION_WORD_SCORE;
+    }
+  }
+  return score;
+}
+
+/**
+ * Scores per aspect for one review text: the summed scores of the sentences
+ * mentioning each aspect, with those sentences. Sentences are scored in the
+ * language of the whole review, since a lone sentence is often too short to
+ * tell.
+ */
+export function scoreReviewAspects(
+  text: string,
+  aspects: AspectLexicon = getAspectLexicon(),
+  language: ReviewLanguage | null = detectLanguage(text)
+): Map<string, { score: number; sentences: string[] }> {
+  const result = new Map<string, { score: number; sentences: string[] }>();
+
+  for (const sentence of splitSentences(text)) {
+    const base = scoreSentiment(sentence, language).score;
+    for (const aspect of compileLexicon(aspects)) {
+      const positive = opinionScore(sentence, aspect.positive, 1);
+      const negative = opinionScore(sentence, aspect.negative, -1);
+      const mentioned =
+        positive !== 0 || negative !== 0 || aspect.terms.some((p) => sentence.search(p) >= 0);
+      if (!mentioned) continue;
+
+      const entry = result.get(aspect.key) ?? { score: 0, sentences: [] };
+      entry.score += base + positive + negative;
+      entry.sentences.push(sentence);
+      result.set(aspect.key, entry);
+    }
+  }
+  return result;
+}
+
+/**
+ * Mentions and net sentiment per aspect over a set of review texts, most
+ * mentioned aspects first. Aspects nobody mentions are left out.
+ */
+export function analyzeAspects(
+  texts: string[],
+  aspects: AspectLexicon = getAspectLexicon()
+): AspectSentiment[] {
+  const totals = new Map<string, AspectSentiment>();
+
+  for (const text of texts) {
+    for (const [key, { score, sentences }] of scoreReviewAspects(text, aspects)) {
+      const entry = totals.get(key) ?? {
+        aspect: key,
+        label: aspects[key]?.label ?? key,
+        mentions: 0,
+        positive: 0,
+        neutral: 0,
+        negative: 0,
+        net_sentiment: 0,
+        negative_examples: [],
+      };
+      entry.mentions++;
+      if (score > 1) entry.positive++;
+      else if (score < -1) {
+        entry.negative++;
+        if (entry.negative_examples.length < NEGATIVE_EXAMPLES_PER_ASPECT) {
+          entry.negative_examples.push(sentences.join(" … "));
+        }
+      } else entry.neutral++;
+      totals.set(key, entry);
+    }
+  }
+
+  return [...totals.values()]
+    .map((entry) => ({
+      ...entry,
+      net_sentiment: Math.round(((entry.positive - entry.negative) / entry.mentions) * 100),
+    }))
+    .sort((a, b) => b.mentions - a.mentions);
+}
@@ -0,0 +1,190 @@
+import {
+  chromium,
+  type Browser,
+  type BrowserContext,
+  type BrowserContextOptions,
+  type Page,
+} from "playwright";
+
+/**
+ * One shared headless Chromium for everything that needs a browser
+ * (scrapes, PDF reports). Callers lease an isolated context; the pool caps how
+ * many run at once, closes the browser after a quiet period and relaunches it
+ * on the next lease if it crashed.
+ */
+
+const MAX_CONCURRENT_CONTEXTS = Number(process.env.BROWSER_MAX_CONTEXTS) || 3;
+const IDLE_SHUTDOWN_MS = Number(process.env.BROWSER_IDLE_SHUTDOWN_MS) || 60_000;
+
+export type BrowserPoolHealth = {
+  // idle: no browser running; up: running; degraded: last launch failed or it crashed recently
+  status: "idle" | "up" | "degraded";
+  connected: boolean;
+  active_contexts: number;
+  queued: number;
+  max_concurrency: number;
+  launches: number;
+  crashes: number;
+  last_crash_at: string | null;
+  last_error: string | null;
+};
+
+// A crash within this window marks the pool as degraded in /health
+const RECENT_CRASH_MS = 5 * 60_000;
+
+let browser: Browser | null = null;
+let launching: Promise<Browser> | null = null;
+let closingOnPurpose = false;
+let idleTimer: NodeJS.Timeout | null = null;
+
+let active = 0;
+const waiters: Array<() => void> = [];
+
+let launches = 0;
+let crashes = 0;
+let lastCrashAt: Date | null = null;
+let lastError: string | null = null;
+
+async function launchBrowser(): Promise<Browser> {
+  // Run in non-headless mode for debugging
+  // Run in headless mode for production
+  const launched = await chromium.launch({ headless: true });
+  launches++;
+  lastError = null;
+
+  launched.on("disconnected", () => {
+    if (browser === launched) browser = null;
+    if (closingOnPurpose) return;
+
+    // Leases still running on it fail on their own; the next one relaunches
+    crashes++;
+    lastCrashAt = new Date();
+    console.error("✗ Shared browser disconnected unexpectedly; it will be relaunched on the next lease");
+  });
+
+  console.log(`Shared browser launched (launch #${launches})`);
+  return launched;
+}
+
+async function getBrowser(): Promise<Browser> {
+  if (browser?.isConnected()) return browser;
+
+  // Concurrent leases share a single launch
+  if (!launching) {
+    launching = launchBrowser()
+      .then((launched) => {
+        browser = launched;
+        return launched;
+      })
+      .catch((error) => {
+        lastError = error?.message || String(error);
+        throw error;
+      })
+      .finally(() => {
+        launching = null;
+      });
+  }
+  return launching;
+}
+
+async function acquireSlot(): Promise<void> {
+  if (idleTimer) {
+    clearTimeout(idleTimer);
+    idleTimer = null;
+  }
+  if (active < MAX_CONCURRENT_CONTEXTS) {
+    active++;
+    return;
+  }
+  // The releasing lease hands its slot over, so active stays the same
+  await new Promise<void>((resolve) => waiters.push(resolve));
+}
+
+function releaseSlot() {
+  const next = waiters.shift();
+  if (next) {
+    next();
+    return;
+  }
+
+  active--;
+  if (active === 0) {
+    idleTimer = setTimeout(() => {
+      idleTimer = null;
+      closeBrowserPool().catch((e) => console.error("Error closing idle browser:", e));
+    }, IDLE_SHUTDOWN_MS);
+    idleTimer.unref();
+  }
+}
+
+/**
+ * Run `fn` with a fresh browser context. The context is closed afterwards,
+ * whatever happens; waits for a free slot when the pool is at capacity.
+ */
+export async function withBrowserContext<T>(
+  options: BrowserContextOptions,
+  fn: (context: BrowserContext) => Promise<T>
+): Promise<T> {
+  await acquireSlot();
+  try {
+    const shared = await getBrowser();
+    const context = await shared.newContext(options);
+    try {
+      return await fn(context);
+    } finally {
+      try {
+        await context.close();
+      } catch (e) {
+        // Ignore close errors (the browser may have crashed)
+      }
+    }
+  } finally {
+    releaseSlot();
+  }
+}
+
+/**
+ * Same as withBrowserContext, for the common case of a single page.
+ */
+export async function withBrowserPage<T>(
+  options: BrowserContextOptions,
+  fn: (page: Page) => Promise<T>
+): Promise<T> {
+  return withBrowserContext(options, async (context) => fn(await context.newPage()));
+}
+
+export function getBrowserPoolHealth(): BrowserPoolHealth {
+  const connected = browser?.isConnected() ?? false;
+  const crashedRecently =
+    lastCrashAt !== null && Date.now() - lastCrashAt.getTime() < RECENT_CRASH_MS;
+
+  return {
+    status: lastError || crashedRecently ? "degraded" : connected ? "up" : "idle",
+    connected,
+    active_contexts: active,
+    queued: waiters.length,
+    max_concurrency: MAX_CONCURRENT_CONTEXTS,
+    launches,
+    crashes,
+    last_crash_at: lastCrashAt ? lastCrashAt.toISOString() : null,
+    last_error: lastError,
+  };
+}
+
+/**
+ * Close the shared browser (idle shutdown, process exit). The next lease
+ * launches a new one.
+ */
+export async function closeBrowserPool(): Promise<void> {
+  const current = browser;
+  browser = null;
+  if (!current) return;
+
+  closingOnPurpose = true;
+  try {
+    await current.close();
+    console.log("Shared browser closed");
+  } finally {
+    closingOnPurpose = false;
+  }
+}
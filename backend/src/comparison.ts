@@ -0,0 +1,382 @@
+import { pool } from "./db";
+import {
+  analyzeCompetitor,
+  cleanReviewText,
+  filterConditions,
+  type AnalysisFilters,
+  type CompetitorAnalysis,
+} from "./analysis";
+import { reviewTerms } from "./keywords";
+import { detectLanguage } from "./languages";
+
+/**
+ * Head-to-head comparison of a business's own listing (a competitors row with
+ * is_self, see migrations/016_business_listings.sql) with each competitor.
+ */
+
+export type ComparisonVerdict = "leads" | "lags" | "even";
+
+export type ListingMetrics = {
+  competitor_id: string;
+  name: string;
+  total_reviews: number;
+  avg_rating: number | null;
+  official_rating: number | null;
+  positive_pct: number;
+  negative_pct: number;
+  reviews_per_month: number | null; // over the VELOCITY_DAYS before `to` (or today)
+  response_rate: number | null;
+  aspects: Array<{ aspect: string; label: string; mentions: number; net_sentiment: number }>;
+};
+
+export type ComparedMetric = {
+  metric: string; // e.g. avg_rating or aspect:service
+  label: string;
+  business: number | null;
+  competitor: number | null;
+  difference: number | null; // business − competitor
+  verdict: ComparisonVerdict | null; // null when either side has no figure
+};
+
+// A keyword praised on one side and rare on the other (shares are % of reviews)
+export type KeywordGap = {
+  term: string;
+  business_share: number;
+  competitor_share: number;
+};
+
+export type HeadToHead = {
+  competitor: ListingMetrics;
+  metrics: ComparedMetric[];
+  keyword_gaps: {
+    competitor_strengths: KeywordGap[]; // what customers praise there and rarely mention here
+    business_strengths: KeywordGap[];
+  };
+};
+
+export type BusinessComparison = {
+  business_id: string;
+  filters: AnalysisFilters;
+  business: ListingMetrics;
+  competitors: HeadToHead[];
+  // Metrics where the business beats / trails the competitors' average
+  leads: string[];
+  lags: string[];
+};
+
+export class ComparisonError extends Error {
+  constructor(
+    readonly reason: "business_not_found" | "no_listing",
+    message: string
+  ) {
+    super(message);
+    this.name = "ComparisonError";
+  }
+}
+
+const VELOCITY_DAYS = 90;
+// Aspects with fewer mentions on either side are not compared
+const MIN_ASPECT_MENTIONS = 3;
+// A keyword must come up in this many reviews to count as a strength
+const MIN_GAP_REVIEWS = 2;
+const MAX_KEYWORD_GAPS = 5;
+
+type MetricDefinition = {
+  metric: string;
+  label: string;
+  value: (m: ListingMetrics) => number | null;
+  margin: number; // smallest difference that counts as leading or lagging
+  relative?: boolean; // margin is a fraction of the larger value
+  lowerIsBetter?: boolean;
+};
+
+const METRICS: MetricDefinition[] = [
+  { metric: "avg_rating", label: "Average rating", value: (m) => m.avg_rating, margin: 0.1 },
+  { metric: "official_rating", label: "Google rating", value: (m) => m.official_rating, margin: 0.1 },
+  { metric: "positive_pct", label: "Positive reviews (%)", value: (m) => m.positive_pct, margin: 5 },
+  {
+    metric: "negative_pct",
+    label: "Negative reviews (%)",
+    value: (m) => m.negative_pct,
+    margin: 5,
+    lowerIsBetter: true,
+  },
+  {
+    metric: "reviews_per_month",
+    label: "Reviews per month",
+    value: (m) => m.reviews_per_month,
+    margin: 0.2,
+    relative: true,
+  },
+  { metric: "response_rate", label: "Owner response rate (%)", value: (m) => m.response_rate, margin: 10 },
+];
+
+/**
+ * The business's own listing, if it has set one.
+ */
+export async function getBusinessListing(
+  businessId: string
+): Promise<{ id: string; name: string } | null> {
+  const { rows } = await pool.query<{ id: string; name: string }>(
+    `SELECT id, name FROM public.competitors WHERE business_id = $1 AND is_self`,
+    [businessId]
+  );
+  return rows[0] ?? null;
+}
+
+type ListingProfile = {
+  metrics: ListingMetrics;
+  analysis: CompetitorAnalysis;
+  terms: Set<string>[]; // per review, to look keywords up in
+};
+
+async function loadListingProfile(
+  competitorId: string,
+  name: string,
+  filters: AnalysisFilters,
+  analysis?: CompetitorAnalysis
+): Promise<ListingProfile> {
+  const analyzed = analysis ?? (await analyzeCompetitor(competitorId, filters));
+  const reviewsPerMonth = await loadReviewVelocity(competitorId, filters);
+  const terms = await loadReviewTerms(competitorId, filters);
+
+  return {
+    analysis: analyzed,
+    terms,
+    metrics: {
+      competitor_id: competitorId,
+      name,
+      total_reviews: analyzed.total_reviews,
+      avg_rating: analyzed.avg_rating,
+      official_rating: analyzed.official?.rating ?? null,
+      positive_pct: analyzed.sentiment_breakdown.positive,
+      negative_pct: analyzed.sentiment_breakdown.negative,
+      reviews_per_month: reviewsPerMonth,
+      response_rate: analyzed.response_rate,
+      aspects: analyzed.aspects.map(({ aspect, label, mentions, net_sentiment }) => ({
+        aspect,
+        label,
+        mentions,
+        net_sentiment,
+      })),
+    },
+  };
+}
+
+/**
+ * Reviews per 30 days over the VELOCITY_DAYS up to the `to` filter (or today),
+ * with the source and rating filters applied. Null without any review dates.
+ */
+async function loadReviewVelocity(
+  competitorId: string,
+  filters: AnalysisFilters
+): Promise<number | null> {
+  const params: unknown[] = [competitorId];
+  const where = filterConditions({ ...filters, from: null, to: null }, params);
+  params.push(filters.to, VELOCITY_DAYS);
+  const end = `COALESCE($${params.length - 1}::date + 1, now())`;
+
+  const { rows } = await pool.query<{ recent: number; dated: number }>(
+    `
+    SELECT
+      count(*) FILTER (
+        WHERE review_date >= ${end} - make_interval(days => $${params.length})
+          AND review_date < ${end}
+      )::int AS recent,
+      count(review_date)::int AS dated
+    FROM public.reviews
+    WHERE ${where}
+    `,
+    params
+  );
+  const stats = rows[0];
+  if (!stats || stats.dated === 0) return null;
+  return parseFloat(((stats.recent / VELOCITY_DAYS) * 30).toFixed(1));
+}
+
+// Terms of the same reviews analyzeCompetitor looks at
+async function loadReviewTerms(
+  competitorId: string,
+  filters: AnalysisFilters
+): Promise<Set<string>[]> {
+  const params: unknown[] = [competitorId];
+  const where = filterConditions(filters, params);
+  params.push(filters.limit);
+
+  const { rows } = await pool.query<{ review_text: string }>(
+    `
+    SELECT review_text
+    FROM public.reviews
+    WHERE ${where}
+      AND review_text IS NOT NULL
+    ORDER BY review_date DESC NULLS LAST, created_at DESC
+    LIMIT $${params.length}
+    `,
+    params
+  );
+  return rows.map((row) => {
+    const text = cleanReviewText(row.review_text);
+    return reviewTerms(text, detectLanguage(text));
+  });
+}
+
+function verdictOf(
+  business: number | null,
+  competitor: number | null,
+  definition: Pick<MetricDefinition, "margin" | "relative" | "lowerIsBetter">
+): ComparisonVerdict | null {
+  if (business === null || competitor === null) return null;
+  const margin = definition.relative
+    ? definition.margin * Math.max(Math.abs(business), Math.abs(competitor))
+    : definition.margin;
+  const advantage = definition.lowerIsBetter ? competitor - business : business - competitor;
+  if (advantage > 0 && advantage >= margin) return "leads";
+  if (advantage < 0 && -advantage >= margin) return "lags";
+  return "even";
+}
+
+// The fixed metrics plus the net sentiment of every aspect either side has
+function metricDefinitions(...sides: ListingMetrics[]): MetricDefinition[] {
+  const aspects = new Map<string, string>();
+  for (const side of sides) {
+    for (const a of side.aspects) aspects.set(a.aspect, a.label);
+  }
+  return [
+    ...METRICS,
+    ...[...aspects].map(([aspect, label]) => ({
+      metric: `aspect:${aspect}`,
+      label: `${label} sentiment`,
+      value: (m: ListingMetrics) => {
+        const found = m.aspects.find((a) => a.aspect === aspect);
+        return found && found.mentions >= MIN_ASPECT_MENTIONS ? found.net_sentiment : null;
+      },
+      margin: 10,
+    })),
+  ];
+}
+
+/**
+ * Positive keywords of `from` that at most half as large a share of the
+ * other side's reviews mention.
+ */
+function keywordGaps(from: ListingProfile, other: ListingProfile, fromIsBusiness: boolean): KeywordGap[] {
+  if (from.analysis.total_reviews === 0) return [];
+  const share = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 100) : 0);
+
+  return from.analysis.keywords
+    .filter((k) => k.sentiment === "positive" && k.frequency >= MIN_GAP_REVIEWS)
+    .map((k) => {
+      const fromShare = share(k.frequency, from.analysis.total_reviews);
+      const otherShare = share(
+        other.terms.filter((terms) => terms.has(k.term)).length,
+        other.terms.length
+      );
+      return fromIsBusiness
+        ? { term: k.term, business_share: fromShare, competitor_share: otherShare }
+        : { term: k.term, business_share: otherShare, competitor_share: fromShare };
+    })
+    .filter((gap) =>
+      fromIsBusiness
+        ? gap.competitor_share * 2 <= gap.business_share
+        : gap.business_share * 2 <= gap.competitor_share
+    )
+    .slice(0, MAX_KEYWORD_GAPS);
+}
+
+function compareProfiles(business: ListingProfile, competitor: ListingProfile): HeadToHead {
+  const metrics = metricDefinitions(business.metrics, competitor.metrics).map((definition) => {
+    const b = definition.value(business.metrics);
+    const c = definition.value(competitor.metrics);
+    return {
+      metric: definition.metric,
+      label: definition.label,
+      business: b,
+      competitor: c,
+      difference: b !== null && c !== null ? parseFloat((b - c).toFixed(2)) : null,
+      verdict: verdictOf(b, c, definition),
+    };
+  });
+
+  return {
+    competitor: competitor.metrics,
+    metrics,
+    keyword_gaps: {
+      competitor_strengths: keywordGaps(competitor, business, false),
+      business_strengths: keywordGaps(business, competitor, true),
+    },
+  };
+}
+
+/**
+ * Compare the business's listing with every competitor over the reviews
+ * matching `filters`, and sum up where it leads or lags their average.
+ */
+export async function compareBusiness(
+  businessId: string,
+  filters: AnalysisFilters
+): Promise<BusinessComparison> {
+  const businessRes = await pool.query(`SELECT id FROM public.businesses WHERE id = $1`, [businessId]);
+  if (businessRes.rowCount === 0) {
+    throw new ComparisonError("business_not_found", "Business not found.");
+  }
+  const listing = await getBusinessListing(businessId);
+  if (!listing) {
+    throw new ComparisonError("no_listing", "Set the business's own Google Maps listing first.");
+  }
+
+  const business = await loadListingProfile(listing.id, listing.name, filters);
+
+  const { rows } = await pool.query<{ id: string; name: string }>(
+    `
+    SELECT id, name
+    FROM public.competitors
+    WHERE business_id = $1 AND NOT is_self
+    ORDER BY created_at
+    `,
+    [businessId]
+  );
+  const competitors: HeadToHead[] = [];
+  for (const row of rows) {
+    const profile = await loadListingProfile(row.id, row.name, filters);
+    competitors.push(compareProfiles(business, profile));
+  }
+
+  const leads: string[] = [];
+  const lags: string[] = [];
+  for (const definition of metricDefinitions(business.metrics, ...competitors.map((c) => c.competitor))) {
+    const values = competitors
+      .map((c) => definition.value(c.competitor))
+      .filter((v): v is number => v !== null);
+    const average = values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+    const verdict = verdictOf(definition.value(business.metrics), average, definition);
+    if (verdict === "leads") leads.push(definition.label);
+    if (verdict === "lags") lags.push(definition.label);
+  }
+
+  return {
+    business_id: businessId,
+    filters,
+    business: business.metrics,
+    competitors,
+    leads,
+    lags,
+  };
+}
+
+/**
+ * The business's listing against one competitor, for its report. Null when
+ * the business has no listing or the competitor is that listing.
+ */
+export async function compareWithCompetitor(
+  businessId: string,
+  competitor: { id: string; name: string },
+  filters: AnalysisFilters,
+  analysis: CompetitorAnalysis
+): Promise<HeadToHead | null> {
+  const listing = await getBusinessListing(businessId);
+  if (!listing || listing.id === competitor.id) return null;
+
+  const business = await loadListingProfile(listing.id, listing.name, filters);
+  const profile = await loadListingProfile(competitor.id, competitor.name, filters, analysis);
+  return compareProfiles(business, profile);
+}
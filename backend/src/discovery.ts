@@ -0,0 +1,175 @@
+import { pool } from "./db";
+import { searchGoogleMapsPlaces } from "./scrapers/googleMapsSearch";
+import type { ScrapeLanguage } from "./scrapers/locale";
+import type { PlaceCandidate } from "./scrapers/types";
+
+export type LatLng = { lat: number; lng: number };
+
+export type CompetitorSuggestion = PlaceCandidate & {
+  distance_km: number | null;
+  score: number;
+};
+
+export type SuggestionOptions = {
+  category: string | null; // defaults to the business's category, then its competitors' most common one
+  radiusKm: number;
+  language: ScrapeLanguage;
+  limit: number;
+};
+
+export type CompetitorSuggestions = {
+  category: string;
+  origin: LatLng;
+  origin_source: "business" | "competitors"; // where the search centre came from
+  radius_km: number;
+  suggestions: CompetitorSuggestion[];
+};
+
+/**
+ * Why suggestions could not be made; the message tells the user what to fill in.
+ */
+export class DiscoveryError extends Error {
+  constructor(
+    readonly reason: "business_not_found" | "no_location" | "no_category",
+    message: string
+  ) {
+    super(message);
+    this.name = "DiscoveryError";
+  }
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+// Great-circle distance (haversine)
+export function distanceKm(a: LatLng, b: LatLng): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Order search results as competitor suggestions. Places outside the radius
+ * and the ones in `exclude` (competitors already tracked) are dropped.
+ *
+ * The score favours places that are close and have many well-rated reviews:
+ * rating / 5 × log10(1 + review count) × a proximity factor that falls from 1
+ * at the origin to 0.5 at the edge of the radius. Results without coordinates
+ * are kept at half proximity, since Google returned them for the area.
+ */
+export function rankCompetitorCandidates(
+  candidates: PlaceCandidate[],
+  origin: LatLng,
+  radiusKm: number,
+  exclude: { featureIds: Set<string>; placeIds: Set<string> }
+): CompetitorSuggestion[] {
+  return candidates
+    .filter(
+      (c) =>
+        !(c.feature_id && exclude.featureIds.has(c.feature_id)) &&
+        !(c.place_id && exclude.placeIds.has(c.place_id))
+    )
+    .map((c) => {
+      const distance =
+        c.lat !== null && c.lng !== null ? distanceKm(origin, { lat: c.lat, lng: c.lng }) : null;
+      const proximity = distance === null ? 0.5 : 1 - Math.min(distance / radiusKm, 1) / 2;
+      const quality = (c.rating ?? 3) / 5;
+      const volume = Math.log10(1 + (c.review_count ?? 0));
+      return {
+        ...c,
+        distance_km: distance === null ? null : Math.round(distance * 100) / 100,
+        score: Math.round(quality * volume * proximity * 1000) / 1000,
+      };
+    })
+    .filter((c) => c.distance_km === null || c.distance_km <= radiusKm)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Search Google Maps for places of the business's category around its
+ * location and rank them as candidate competitors. Without a stored business
+ * location, the centre of its current competitors is used.
+ */
+export async function suggestCompetitors(
+  businessId: string,
+  options: SuggestionOptions
+): Promise<CompetitorSuggestions> {
+  const businessRes = await pool.query<{
+    category: string | null;
+    latitude: number | null;
+    longitude: number | null;
+  }>(`SELECT category, latitude, longitude FROM public.businesses WHERE id = $1`, [businessId]);
+  const business = businessRes.rows[0];
+  if (!business) {
+    throw new DiscoveryError("business_not_found", "Business not found.");
+  }
+
+  const competitorsRes = await pool.query<{
+    category: string | null;
+    latitude: number | null;
+    longitude: number | null;
+    google_place_id: string | null;
+    google_feature_id: string | null;
+  }>(
+    `
+    SELECT category, latitude, longitude, google_place_id, google_feature_id
+    FROM public.competitors
+    WHERE business_id = $1
+    `,
+    [businessId]
+  );
+  const competitors = competitorsRes.rows;
+
+  let origin: LatLng;
+  let originSource: CompetitorSuggestions["origin_source"];
+  const located = competitors.filter((c) => c.latitude !== null && c.longitude !== null);
+  if (business.latitude !== null && business.longitude !== null) {
+    origin = { lat: business.latitude, lng: business.longitude };
+    originSource = "business";
+  } else if (located.length > 0) {
+    origin = {
+      lat: located.reduce((sum, c) => sum + c.latitude!, 0) / located.length,
+      lng: located.reduce((sum, c) => sum + c.longitude!, 0) / located.length,
+    };
+    originSource = "competitors";
+  } else {
+    throw new DiscoveryError(
+      "no_location",
+      "Set the business location (its Google Maps URL or coordinates) first."
+    );
+  }
+
+  const category = options.category || business.category || mostCommon(competitors.map((c) => c.category));
+  if (!category) {
+    throw new DiscoveryError("no_category", "Set a category for the business or pass one to search for.");
+  }
+
+  const candidates = await searchGoogleMapsPlaces(category, options.language, origin);
+  const suggestions = rankCompetitorCandidates(candidates, origin, options.radiusKm, {
+    featureIds: new Set(competitors.flatMap((c) => (c.google_feature_id ? [c.google_feature_id] : []))),
+    placeIds: new Set(competitors.flatMap((c) => (c.google_place_id ? [c.google_place_id] : []))),
+  });
+
+  return {
+    category,
+    origin,
+    origin_source: originSource,
+    radius_km: options.radiusKm,
+    suggestions: suggestions.slice(0, options.limit),
+  };
+}
+
+function mostCommon(values: Array<string | null>): string | null {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const key = value?.trim();
+    if (key) counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  let best: string | null = null;
+  for (const [value, count] of counts) {
+    if (best === null || count > counts.get(best)!) best = value;
+  }
+  return best;
+}
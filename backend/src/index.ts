@@ -1,10 +1,76 @@
 import express from "express";
 import cors from "cors";
 import { pool } from "./db";
-import { scrapeGoogleMapsReviews } from "./scrapers/googleMaps";
-import { analyzeCompetitor } from "./analysis";
+import {
+  findReviewSource,
+  loadCompetitorReviewUrls,
+  REVIEW_SOURCES,
+} from "./scrapers/registry";
+import { SCRAPE_MODES, type ScrapeMode } from "./scrapers/types";
+import { googleMapsSource } from "./scrapers/googleMaps";
+import { searchGoogleMapsPlaces } from "./scrapers/googleMapsSearch";
+import { ScrapeError } from "./scrapers/errors";
+import {
+  GoogleMapsUrlError,
+  resolveGoogleMapsUrl,
+  type GoogleMapsPlaceRef,
+} from "./scrapers/googleMapsUrl";
+import {
+  DEFAULT_SCRAPE_LANGUAGE,
+  isScrapeLanguage,
+  SCRAPE_LANGUAGES,
+} from "./scrapers/locale";
+import { DEFAULT_SCRAPE_LIMIT, maxReviewsForPlan } from "./plans";
+import {
+  analyzeCompetitor,
+  AnalysisFilterError,
+  parseAnalysisFilters,
+  type AnalysisFilters,
+} from "./analysis";
+import { analyzeCompetitorTrends, TREND_INTERVALS, type TrendInterval } from "./trends";
+import { compareBusiness, ComparisonError, getBusinessListing } from "./comparison";
+import { detectReviewAnomalies } from "./anomalies";
 import path from "path";
-import { generateCompetitorReport } from "./reports";
+import { closeBrowserPool, getBrowserPoolHealth } from "./browserPool";
+import {
+  diagnoseScrapeRun,
+  getScrapeRun,
+  listScrapeRuns,
+  scrapeArtifactPath,
+} from "./scrapeRuns";
+import {
+  listReviewChanges,
+  REVIEW_CHANGE_TYPES,
+  type ReviewChangeType,
+} from "./reviewChanges";
+import { DiscoveryError, suggestCompetitors } from "./discovery";
+import { enqueueJob, getJob, listJobEvents } from "./jobs";
+import { startJobWorker, stopJobWorker } from "./worker";
+import {
+  createSchedule,
+  deleteSchedule,
+  getBusinessTimezone,
+  getSchedule,
+  isValidTimezone,
+  listSchedules,
+  nextRunTimes,
+  parseScheduleInput,
+  rescheduleBusiness,
+  scheduleInputOf,
+  ScheduleValidationError,
+  updateSchedule,
+  type Schedule,
+  type ScheduleInput,
+} from "./schedules";
+import { startScheduler, stopScheduler } from "./scheduler";
+import {
+  IMPORT_FIELDS,
+  IMPORT_PRESETS,
+  importReviews,
+  importSourceName,
+  ReviewImportError,
+  type ImportMapping,
+} from "./reviewImport";
 import dotenv from "dotenv";
 dotenv.config();
 
@@ -30,7 +96,11 @@ app.use("/reports", express.static(reportsDir));
 
 
 app.get("/health", (_req, res) => {
-  res.json({ status: "ok" });
+  const browser = getBrowserPoolHealth();
+  res.json({
+    status: browser.status === "degraded" ? "degraded" : "ok",
+    browser,
+  });
 });
 
 app.get("/db-health", async (_req, res) => {
@@ -94,15 +164,39 @@ app.post("/test-competitor", async (req, res) => {
         error: "business_id, name and google_maps_url are required",
       });
     }
+
+    let place: GoogleMapsPlaceRef;
+    try {
+      place = await resolveGoogleMapsUrl(String(google_maps_url));
+    } catch (error) {
+      if (error instanceof GoogleMapsUrlError) {
+        return res.status(400).json({ error: error.message, reason: error.reason });
+      }
+      console.error("Error resolving competitor URL:", error);
+      return res.status(500).json({ error: "Failed to create competitor" });
+    }
   
     try {
       const result = await pool.query(
         `
-        INSERT INTO public.competitors (business_id, name, google_maps_url, category)
-        VALUES ($1, $2, $3, $4)
-        RETURNING id, business_id, name, google_maps_url, category, created_at;
+        INSERT INTO public.competitors (
+          business_id, name, google_maps_url, category,
+          google_place_id, google_feature_id, latitude, longitude
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING id, business_id, name, google_maps_url, category,
+                  google_place_id, google_feature_id, latitude, longitude, created_at;
         `,
-        [business_id, name, google_maps_url, category || null]
+        [
+          business_id,
+          name,
+          place.url,
+          category || null,
+          place.place_id,
+          place.feature_id,
+          place.lat,
+          place.lng,
+        ]
       );
   
       res.status(201).json({
@@ -115,6 +209,299 @@ app.post("/test-competitor", async (req, res) => {
     }
   });
 
+/**
+ * Set where the business is (and optionally its category), used as the centre
+ * of competitor discovery. Body: google_maps_url (its own listing) or
+ * latitude + longitude; category; timezone (IANA, used by its schedules).
+ */
+app.put("/businesses/:id/location", async (req, res) => {
+  const { id } = req.params;
+  const { google_maps_url, latitude, longitude, category, timezone } = req.body || {};
+
+  if (timezone !== undefined && (typeof timezone !== "string" || !isValidTimezone(timezone))) {
+    return res.status(400).json({ error: "timezone must be an IANA timezone such as Europe/Brussels" });
+  }
+
+  let lat: number | null = null;
+  let lng: number | null = null;
+  if (google_maps_url) {
+    try {
+      const place = await resolveGoogleMapsUrl(String(google_maps_url));
+      lat = place.lat;
+      lng = place.lng;
+    } catch (error) {
+      if (error instanceof GoogleMapsUrlError) {
+        return res.status(400).json({ error: error.message, reason: error.reason });
+      }
+      console.error("Error resolving business URL:", error);
+      return res.status(500).json({ error: "Failed to update business location" });
+    }
+    if (lat === null || lng === null) {
+      return res.status(400).json({
+        error: "This Google Maps URL has no coordinates; pass latitude and longitude instead.",
+      });
+    }
+  } else if (latitude !== undefined || longitude !== undefined) {
+    lat = Number(latitude);
+    lng = Number(longitude);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      return res.status(400).json({ error: "latitude and longitude must be valid coordinates" });
+    }
+  } else if (category === undefined && timezone === undefined) {
+    return res.status(400).json({
+      error: "google_maps_url, latitude + longitude, category or timezone is required",
+    });
+  }
+
+  try {
+    const result = await pool.query(
+      `
+      UPDATE public.businesses
+      SET latitude = COALESCE($2, latitude),
+          longitude = COALESCE($3, longitude),
+          category = CASE WHEN $4::boolean THEN $5 ELSE category END,
+          timezone = COALESCE($6, timezone)
+      WHERE id = $1
+      RETURNING id, name, category, latitude, longitude, timezone
+      `,
+      [
+        id,
+        lat,
+        lng,
+        category !== undefined,
+        category ? String(category).trim() || null : null,
+        timezone ?? null,
+      ]
+    );
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: "Business not found" });
+    }
+    if (timezone !== undefined) await rescheduleBusiness(id);
+
+    res.json({ status: "ok", business: result.rows[0] });
+  } catch (error) {
+    console.error("Error updating business location:", error);
+    res.status(500).json({ error: "Failed to update business location" });
+  }
+});
+
+/**
+ * Set the business's own Google Maps listing. It is stored as a competitor
+ * with is_self, so it is scraped (POST /scrape-competitor/:id), scheduled and
+ * analysed like one and compared with the others at GET /businesses/:id/comparison.
+ * Setting another URL moves the listing; reviews already stored are kept.
+ * Body: google_maps_url. Also sets the business location when it has none.
+ */
+app.put("/businesses/:id/listing", async (req, res) => {
+  const { id } = req.params;
+  const { google_maps_url } = req.body || {};
+  if (!google_maps_url) {
+    return res.status(400).json({ error: "google_maps_url is required" });
+  }
+
+  let place: GoogleMapsPlaceRef;
+  try {
+    place = await resolveGoogleMapsUrl(String(google_maps_url));
+  } catch (error) {
+    if (error instanceof GoogleMapsUrlError) {
+      return res.status(400).json({ error: error.message, reason: error.reason });
+    }
+    console.error("Error resolving business listing URL:", error);
+    return res.status(500).json({ error: "Failed to set business listing" });
+  }
+
+  try {
+    const businessRes = await pool.query(
+      `SELECT name, category FROM public.businesses WHERE id = $1`,
+      [id]
+    );
+    const business = businessRes.rows[0];
+    if (!business) {
+      return res.status(404).json({ error: "Business not found" });
+    }
+
+    const tracked = await pool.query(
+      `
+      SELECT 1 FROM public.competitors
+      WHERE business_id = $1 AND NOT is_self
+        AND (google_maps_url = $2 OR google_feature_id = $3 OR google_place_id = $4)
+      `,
+      [id, place.url, place.feature_id, place.place_id]
+    );
+    if ((tracked.rowCount ?? 0) > 0) {
+      return res.status(409).json({
+        error: "This place is tracked as a competitor of the business.",
+        reason: "tracked_as_competitor",
+      });
+    }
+
+    const existing = await getBusinessListing(id);
+    const placeValues = [place.url, place.place_id, place.feature_id, place.lat, place.lng];
+    const result = existing
+      ? await pool.query(
+          `
+          UPDATE public.competitors
+          SET google_maps_url = $2, google_place_id = $3, google_feature_id = $4,
+              latitude = $5, longitude = $6
+          WHERE id = $1
+          RETURNING id, business_id, name, google_maps_url, category, is_self,
+                    google_place_id, google_feature_id, latitude, longitude, created_at
+          `,
+          [existing.id, ...placeValues]
+        )
+      : await pool.query(
+          `
+          INSERT INTO public.competitors (
+            business_id, google_maps_url, google_place_id, google_feature_id,
+            latitude, longitude, name, category, is_self
+          )
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, true)
+          RETURNING id, business_id, name, google_maps_url, category, is_self,
+                    google_place_id, google_feature_id, latitude, longitude, created_at
+          `,
+          [id, ...placeValues, business.name, business.category]
+        );
+    const listing = result.rows[0];
+
+    await pool.query(
+      `
+      UPDATE public.businesses
+      SET latitude = $2, longitude = $3
+      WHERE id = $1 AND latitude IS NULL
+        AND $2::double precision IS NOT NULL AND $3::double precision IS NOT NULL
+      `,
+      [id, place.lat, place.lng]
+    );
+
+    res.json({ status: "ok", listing, scrape_url: `/scrape-competitor/${listing.id}` });
+  } catch (error) {
+    console.error("Error setting business listing:", error);
+    res.status(500).json({ error: "Failed to set business listing" });
+  }
+});
+
+/**
+ * Nearby places of the business's category that it doesn't track yet, ranked.
+ * Query: category (default: the business's, else its competitors' most common),
+ * radius_km (default 5, max 50), limit (default 10, max 20), language.
+ */
+app.get("/businesses/:id/competitor-suggestions", async (req, res) => {
+  const { id } = req.params;
+
+  const radiusKm = req.query.radius_km !== undefined ? Number(req.query.radius_km) : 5;
+  if (!Number.isFinite(radiusKm) || radiusKm <= 0 || radiusKm > 50) {
+    return res.status(400).json({ error: "radius_km must be a number between 0 and 50" });
+  }
+
+  const limit = req.query.limit !== undefined ? Number(req.query.limit) : 10;
+  if (!Number.isInteger(limit) || limit < 1 || limit > 20) {
+    return res.status(400).json({ error: "limit must be an integer between 1 and 20" });
+  }
+
+  const language = req.query.language || DEFAULT_SCRAPE_LANGUAGE;
+  if (!isScrapeLanguage(language)) {
+    return res.status(400).json({
+      error: `language must be one of: ${SCRAPE_LANGUAGES.join(", ")}`,
+    });
+  }
+
+  const category = typeof req.query.category === "string" ? req.query.category.trim() : "";
+
+  try {
+    const result = await suggestCompetitors(id, {
+      category: category || null,
+      radiusKm,
+      language,
+      limit,
+    });
+    res.json({ status: "ok", business_id: id, ...result, count: result.suggestions.length });
+  } catch (error) {
+    if (error instanceof DiscoveryError) {
+      const status = error.reason === "business_not_found" ? 404 : 400;
+      return res.status(status).json({ error: error.message, reason: error.reason });
+    }
+    if (error instanceof ScrapeError) {
+      return res.status(502).json({ error: error.message, reason: error.reason });
+    }
+    console.error("Error suggesting competitors:", error);
+    res.status(500).json({ error: "Failed to suggest competitors" });
+  }
+});
+
+/**
+ * Add several competitors at once, e.g. the suggestions the user ticked.
+ * Body: places = [{ url, name, category? }]. Places the business already
+ * tracks are skipped; invalid URLs are reported per place.
+ */
+app.post("/businesses/:id/competitors", async (req, res) => {
+  const { id } = req.params;
+  const places = (req.body || {}).places;
+  if (!Array.isArray(places) || places.length === 0) {
+    return res.status(400).json({ error: "places must be a non-empty array" });
+  }
+
+  try {
+    const existing = await pool.query(`SELECT id FROM public.businesses WHERE id = $1`, [id]);
+    if (existing.rowCount === 0) {
+      return res.status(404).json({ error: "Business not found" });
+    }
+
+    const added: unknown[] = [];
+    const skipped: Array<{ url: string; reason: string; error: string }> = [];
+
+    for (const entry of places) {
+      const url = String(entry?.url ?? "");
+      let place: GoogleMapsPlaceRef;
+      try {
+        place = await resolveGoogleMapsUrl(url);
+      } catch (error) {
+        if (!(error instanceof GoogleMapsUrlError)) throw error;
+        skipped.push({ url, reason: error.reason, error: error.message });
+        continue;
+      }
+
+      const result = await pool.query(
+        `
+        INSERT INTO public.competitors (
+          business_id, name, google_maps_url, category,
+          google_place_id, google_feature_id, latitude, longitude
+        )
+        SELECT $1::uuid, $2::text, $3::text, $4::text, $5::text, $6::text,
+               $7::double precision, $8::double precision
+        WHERE NOT EXISTS (
+          SELECT 1 FROM public.competitors
+          WHERE business_id = $1
+            AND (google_maps_url = $3 OR google_feature_id = $6 OR google_place_id = $5)
+        )
+        RETURNING id, business_id, name, google_maps_url, category,
+                  google_place_id, google_feature_id, latitude, longitude, created_at
+        `,
+        [
+          id,
+          String(entry?.name || place.name || "Competitor"),
+          place.url,
+          entry?.category ? String(entry.category) : null,
+          place.place_id,
+          place.feature_id,
+          place.lat,
+          place.lng,
+        ]
+      );
+
+      if (result.rows[0]) {
+        added.push(result.rows[0]);
+      } else {
+        skipped.push({ url, reason: "already_added", error: "This place is already a competitor." });
+      }
+    }
+
+    res.status(201).json({ status: "ok", competitors: added, skipped });
+  } catch (error) {
+    console.error("Error adding competitors:", error);
+    res.status(500).json({ error: "Failed to add competitors" });
+  }
+});
+
 /**
  * TEMP: List all businesses
  */
@@ -141,20 +528,59 @@ app.get("/test-businesses", async (_req, res) => {
 
 app.listen(PORT, () => {
   console.log(`Backend API listening on http://localhost:${PORT}`);
+  if (process.env.JOB_WORKER !== "false") startJobWorker();
+  if (process.env.SCHEDULER !== "false") startScheduler();
 });
 
+// Let running jobs finish and don't leave the shared Chromium behind when the API stops
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.once(signal, () => {
+    stopScheduler();
+    stopJobWorker()
+      .then(() => closeBrowserPool())
+      .catch((e) => console.error("Error closing browser pool:", e))
+      .finally(() => process.exit(0));
+  });
+}
+
 /**
- * Trigger scraping for a competitor by id
+ * Queue a scrape of a competitor across all of its review sources.
+ * Body (or query): mode = "incremental" | "full", limit = max reviews to collect.
+ * The limit is capped by the business's plan. Answers 202 with a job id; the
+ * outcome (review counts per source, or a failure `reason` such as timeout,
+ * blocked or consent_wall) is the job's result at GET /jobs/:id.
  */
 app.post("/scrape-competitor/:id", async (req, res) => {
     const { id } = req.params;
+    const params = { ...req.query, ...(req.body || {}) };
+
+    const mode = (params.mode || "incremental") as ScrapeMode;
+    if (!SCRAPE_MODES.includes(mode)) {
+      return res.status(400).json({
+        error: `mode must be one of: ${SCRAPE_MODES.join(", ")}`,
+      });
+    }
+
+    const language = params.language || DEFAULT_SCRAPE_LANGUAGE;
+    if (!isScrapeLanguage(language)) {
+      return res.status(400).json({
+        error: `language must be one of: ${SCRAPE_LANGUAGES.join(", ")}`,
+      });
+    }
+
+    const requestedLimit =
+      params.limit !== undefined ? Number(params.limit) : DEFAULT_SCRAPE_LIMIT;
+    if (!Number.isInteger(requestedLimit) || requestedLimit < 1) {
+      return res.status(400).json({ error: "limit must be a positive integer" });
+    }
   
     try {
       const result = await pool.query(
         `
-        SELECT id, google_maps_url
-        FROM public.competitors
-        WHERE id = $1
+        SELECT c.id, b.plan
+        FROM public.competitors c
+        LEFT JOIN public.businesses b ON b.id = c.business_id
+        WHERE c.id = $1
         `,
         [id]
       );
@@ -164,146 +590,1009 @@ app.post("/scrape-competitor/:id", async (req, res) => {
       }
   
       const competitor = result.rows[0];
-  
-      if (!competitor.google_maps_url) {
-        return res.status(400).json({ error: "Competitor has no google_maps_url" });
+
+      const urls = await loadCompetitorReviewUrls(competitor.id);
+      if (urls.length === 0) {
+        return res.status(400).json({ error: "Competitor has no review sources" });
       }
-  
-      const insertedCount = await scrapeGoogleMapsReviews(
-        competitor.id,
-        competitor.google_maps_url,
-        5 // <-- always only 5 reviews in MVP
-      );
-  
-      res.json({
-        status: "ok",
+
+      const limit = Math.min(requestedLimit, maxReviewsForPlan(competitor.plan));
+
+      const job = await enqueueJob("scrape_competitor", {
+        competitor_id: competitor.id,
+        mode,
+        limit,
+        language,
+      });
+
+      res.status(202).json({
+        status: "queued",
+        job_id: job.id,
+        job_url: `/jobs/${job.id}`,
+        events_url: `/jobs/${job.id}/events`,
         competitor_id: competitor.id,
-        reviews_inserted: insertedCount,
+        mode,
+        limit,
+        language,
       });
     } catch (error) {
       console.error("Error in /scrape-competitor:", error);
-      res.status(500).json({ error: "Failed to scrape competitor" });
+      res.status(500).json({ error: "Failed to queue scrape" });
     }
   });
 
 /**
- * Get reviews for a competitor
+ * Status of a background job: queued | running | succeeded | dead, with its
+ * progress, attempts and result (scrape totals, or report_id + pdf_url).
  */
-app.get("/competitor/:id/reviews", async (req, res) => {
+app.get("/jobs/:id", async (req, res) => {
   const { id } = req.params;
 
   try {
-    const result = await pool.query(
-      `
-      SELECT 
-        id,
-        competitor_id,
-        rating,
-        review_text,
-        review_date,
-        reviewer_name,
-        source,
-        created_at
-      FROM public.reviews
-      WHERE competitor_id = $1
-      ORDER BY created_at DESC
-      LIMIT 100
-      `,
-      [id]
-    );
+    const job = await getJob(id);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    res.json({ status: "ok", job });
+  } catch (error) {
+    console.error("Error fetching job:", error);
+    res.status(500).json({ error: "Failed to fetch job" });
+  }
+});
 
-    res.json({
-      status: "ok",
-      competitor_id: id,
-      reviews: result.rows,
-      count: result.rows.length,
-    });
+const JOB_EVENTS_POLL_MS = Number(process.env.JOB_EVENTS_POLL_MS) || 1_000;
+const SSE_HEARTBEAT_MS = 15_000;
+const TERMINAL_JOB_EVENTS = new Set(["done", "failed"]);
+
+/**
+ * Server-Sent Events stream of a job's progress, one message per step:
+ * { type, message, data, created_at } as JSON, where type is queued, started,
+ * consent_handled, reviews_tab_opened, reviews_loaded, reviews_parsed,
+ * inserting, rendering_pdf, done, failed, ... The stream ends after "done"
+ * (data: the job result) or "failed". Reconnecting clients resume from
+ * Last-Event-ID (or ?after=).
+ */
+app.get("/jobs/:id/events", async (req, res) => {
+  const { id } = req.params;
+  let lastId = String(req.get("Last-Event-ID") ?? req.query.after ?? "0");
+  if (!/^\d+$/.test(lastId)) lastId = "0";
+
+  try {
+    if (!(await getJob(id))) {
+      return res.status(404).json({ error: "Job not found" });
+    }
   } catch (error) {
-    console.error("Error fetching reviews:", error);
-    res.status(500).json({ error: "Failed to fetch reviews" });
+    console.error("Error fetching job:", error);
+    return res.status(500).json({ error: "Failed to fetch job" });
+  }
+
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no", // keep nginx from buffering the stream
+  });
+  res.flushHeaders();
+
+  let closed = false;
+  // The response closes when the client disconnects (or after res.end)
+  res.on("close", () => {
+    closed = true;
+  });
+
+  let lastWrite = Date.now();
+  // Jobs from before events were recorded, or whose last event was lost,
+  // end once the job itself is finished and nothing new came in
+  let idleAfterFinish = 0;
+
+  while (!closed) {
+    try {
+      const events = await listJobEvents(id, lastId);
+      for (const event of events) {
+        res.write(
+          `id: ${event.id}\ndata: ${JSON.stringify({
+            type: event.type,
+            message: event.message,
+            data: event.data,
+            created_at: event.created_at,
+          })}\n\n`
+        );
+        lastId = event.id;
+        lastWrite = Date.now();
+      }
+      if (events.some((e) => TERMINAL_JOB_EVENTS.has(e.type))) break;
+
+      if (events.length === 0) {
+        const job = await getJob(id);
+        if (!job || job.status === "succeeded" || job.status === "dead") {
+          if (++idleAfterFinish >= 3) break;
+        }
+      }
+    } catch (error) {
+      console.error("Error streaming job events:", error);
+      break;
+    }
+
+    if (Date.now() - lastWrite >= SSE_HEARTBEAT_MS) {
+      res.write(": heartbeat\n\n");
+      lastWrite = Date.now();
+    }
+    await new Promise((resolve) => setTimeout(resolve, JOB_EVENTS_POLL_MS));
   }
+
+  res.end();
 });
 
 /**
- * Get all reviews (for testing/debugging)
+ * Schedules of a business, each with its next few run times.
  */
-app.get("/reviews", async (_req, res) => {
+app.get("/businesses/:id/schedules", async (req, res) => {
+  const { id } = req.params;
+
   try {
-    const result = await pool.query(
-      `
-      SELECT 
-        r.id,
-        r.competitor_id,
-        c.name as competitor_name,
-        r.rating,
-        r.review_text,
-        r.review_date,
-        r.reviewer_name,
-        r.source,
-        r.created_at
-      FROM public.reviews r
-      LEFT JOIN public.competitors c ON r.competitor_id = c.id
-      ORDER BY r.created_at DESC
-      LIMIT 100
-      `
-    );
+    const timezone = await getBusinessTimezone(id);
+    if (!timezone) {
+      return res.status(404).json({ error: "Business not found" });
+    }
 
+    const schedules = await listSchedules(id);
     res.json({
       status: "ok",
-      reviews: result.rows,
-      count: result.rows.length,
+      business_id: id,
+      timezone,
+      schedules: schedules.map((s) => ({ ...s, next_runs: upcomingRuns(s) })),
     });
   } catch (error) {
-    console.error("Error fetching all reviews:", error);
-    res.status(500).json({ error: "Failed to fetch reviews" });
+    console.error("Error fetching schedules:", error);
+    res.status(500).json({ error: "Failed to fetch schedules" });
   }
 });
 
 /**
- * Get analysis for a competitor
+ * Create a recurring scrape or report. Body: kind = "scrape" | "report",
+ * frequency = "daily" | "weekly", day_of_week (1 = Monday, weekly only),
+ * time_of_day "HH:MM", competitor_id (omit for every competitor), timezone
+ * (default: the business's), jitter_minutes (default 15), options (scrape
+ * mode, limit, language), enabled.
  */
-app.get("/competitors/:id/analysis", async (req, res) => {
+app.post("/businesses/:id/schedules", async (req, res) => {
   const { id } = req.params;
+
+  let input: ScheduleInput;
   try {
-    const existing = await pool.query(
-      `SELECT id FROM public.competitors WHERE id = $1`,
-      [id]
-    );
-    if (existing.rowCount === 0) {
-      return res.status(404).json({ error: "Competitor not found" });
+    input = parseScheduleInput(req.body || {});
+  } catch (error) {
+    if (error instanceof ScheduleValidationError) {
+      return res.status(400).json({ error: error.message });
     }
-    const analysis = await analyzeCompetitor(id); // Only pass id, the function will fetch latest 5
-    res.json({ status: "ok", analysis });
+    throw error;
+  }
+
+  try {
+    const timezone = await getBusinessTimezone(id);
+    if (!timezone) {
+      return res.status(404).json({ error: "Business not found" });
+    }
+    if (input.competitor_id && !(await competitorBelongsTo(input.competitor_id, id))) {
+      return res.status(400).json({ error: "competitor_id is not a competitor of this business" });
+    }
+
+    const schedule = await createSchedule(id, timezone, input);
+    res.status(201).json({ status: "ok", schedule: { ...schedule, next_runs: upcomingRuns(schedule) } });
   } catch (error) {
-    res.status(500).json({ status: "error", error: "Failed to analyze competitor" });
+    console.error("Error creating schedule:", error);
+    res.status(500).json({ error: "Failed to create schedule" });
   }
 });
-  
-  /**
- * Generate a report for a business + competitor
- * For now, no auth; later we will check user ownership.
+
+/**
+ * Change a schedule; fields left out keep their value. Disabling clears the
+ * next run, enabling again computes it from now.
  */
-app.post(
-  "/businesses/:businessId/competitors/:competitorId/report",
-  async (req, res) => {
-    const { businessId, competitorId } = req.params;
+app.patch("/schedules/:id", async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const schedule = await getSchedule(id);
+    if (!schedule) {
+      return res.status(404).json({ error: "Schedule not found" });
+    }
 
+    let input: ScheduleInput;
     try {
-      const { reportId, pdfUrl } = await generateCompetitorReport(
-        businessId,
-        competitorId
-      );
+      input = parseScheduleInput(req.body || {}, scheduleInputOf(schedule));
+    } catch (error) {
+      if (error instanceof ScheduleValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      throw error;
+    }
+    if (input.competitor_id && !(await competitorBelongsTo(input.competitor_id, schedule.business_id))) {
+      return res.status(400).json({ error: "competitor_id is not a competitor of this business" });
+    }
 
-      res.status(201).json({
-        status: "ok",
-        report_id: reportId,
-        pdf_url: pdfUrl,
+    const updated = await updateSchedule(schedule, input);
+    res.json({ status: "ok", schedule: { ...updated, next_runs: upcomingRuns(updated) } });
+  } catch (error) {
+    console.error("Error updating schedule:", error);
+    res.status(500).json({ error: "Failed to update schedule" });
+  }
+});
+
+app.delete("/schedules/:id", async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    if (!(await deleteSchedule(id))) {
+      return res.status(404).json({ error: "Schedule not found" });
+    }
+    res.json({ status: "ok" });
+  } catch (error) {
+    console.error("Error deleting schedule:", error);
+    res.status(500).json({ error: "Failed to delete schedule" });
+  }
+});
+
+/**
+ * Next run times of a schedule. Query: count (default 5, max 50).
+ */
+app.get("/schedules/:id/preview", async (req, res) => {
+  const { id } = req.params;
+
+  const count = req.query.count !== undefined ? Number(req.query.count) : 5;
+  if (!Number.isInteger(count) || count < 1 || count > 50) {
+    return res.status(400).json({ error: "count must be an integer between 1 and 50" });
+  }
+
+  try {
+    const schedule = await getSchedule(id);
+    if (!schedule) {
+      return res.status(404).json({ error: "Schedule not found" });
+    }
+    res.json({
+      status: "ok",
+      schedule_id: id,
+      timezone: schedule.effective_timezone,
+      next_runs: upcomingRuns(schedule, count),
+    });
+  } catch (error) {
+    console.error("Error previewing schedule:", error);
+    res.status(500).json({ error: "Failed to preview schedule" });
+  }
+});
+
+/**
+ * Run times of a schedule before it is saved, from the same body as
+ * POST /businesses/:id/schedules. The business only supplies the default
+ * timezone; jitter is left out since it depends on the saved schedule's id.
+ */
+app.post("/businesses/:id/schedules/preview", async (req, res) => {
+  const { id } = req.params;
+
+  const count = req.query.count !== undefined ? Number(req.query.count) : 5;
+  if (!Number.isInteger(count) || count < 1 || count > 50) {
+    return res.status(400).json({ error: "count must be an integer between 1 and 50" });
+  }
+
+  let input: ScheduleInput;
+  try {
+    input = parseScheduleInput(req.body || {});
+  } catch (error) {
+    if (error instanceof ScheduleValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    throw error;
+  }
+
+  try {
+    const businessTimezone = await getBusinessTimezone(id);
+    if (!businessTimezone) {
+      return res.status(404).json({ error: "Business not found" });
+    }
+    const timezone = input.timezone ?? businessTimezone;
+    res.json({
+      status: "ok",
+      timezone,
+      jitter_minutes: input.jitter_minutes,
+      next_runs: nextRunTimes({ ...input, timezone }, null, new Date(), count),
+    });
+  } catch (error) {
+    console.error("Error previewing schedule:", error);
+    res.status(500).json({ error: "Failed to preview schedule" });
+  }
+});
+
+function upcomingRuns(schedule: Schedule, count = 3): Date[] {
+  if (!schedule.enabled) return [];
+  return nextRunTimes(
+    { ...schedule, timezone: schedule.effective_timezone },
+    schedule.id,
+    new Date(),
+    count
+  );
+}
+
+async function competitorBelongsTo(competitorId: string, businessId: string): Promise<boolean> {
+  const result = await pool.query(
+    `SELECT 1 FROM public.competitors WHERE id = $1 AND business_id = $2`,
+    [competitorId, businessId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Check a Google Maps URL before it is stored: returns the canonical place URL,
+ * place ids and coordinates, or 400 with a reason (not_a_place, ...).
+ */
+app.post("/places/resolve", async (req, res) => {
+  const { url } = req.body || {};
+  if (!url || typeof url !== "string") {
+    return res.status(400).json({ error: "url is required" });
+  }
+
+  try {
+    const place = await resolveGoogleMapsUrl(url);
+    res.json({ status: "ok", place });
+  } catch (error) {
+    if (error instanceof GoogleMapsUrlError) {
+      return res.status(400).json({ error: error.message, reason: error.reason });
+    }
+    console.error("Error resolving Google Maps URL:", error);
+    res.status(500).json({ error: "Failed to resolve Google Maps URL" });
+  }
+});
+
+/**
+ * Find candidate places on Google Maps for "name + city"
+ * Query: name (required), city, language
+ */
+app.get("/places/search", async (req, res) => {
+  const name = typeof req.query.name === "string" ? req.query.name.trim() : "";
+  const city = typeof req.query.city === "string" ? req.query.city.trim() : "";
+  if (!name) {
+    return res.status(400).json({ error: "name is required" });
+  }
+
+  const language = req.query.language || DEFAULT_SCRAPE_LANGUAGE;
+  if (!isScrapeLanguage(language)) {
+    return res.status(400).json({
+      error: `language must be one of: ${SCRAPE_LANGUAGES.join(", ")}`,
+    });
+  }
+
+  try {
+    const candidates = await searchGoogleMapsPlaces([name, city].filter(Boolean).join(" "), language);
+    res.json({
+      status: "ok",
+      query: { name, city: city || null },
+      candidates,
+      count: candidates.length,
+    });
+  } catch (error) {
+    if (error instanceof ScrapeError) {
+      return res.status(502).json({ error: error.message, reason: error.reason });
+    }
+    console.error("Error searching Google Maps places:", error);
+    res.status(500).json({ error: "Failed to search places" });
+  }
+});
+
+/**
+ * List the review sources linked to a competitor.
+ * The competitor's google_maps_url is listed first as the primary source.
+ */
+app.get("/competitors/:id/sources", async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const competitorRes = await pool.query(
+      `SELECT id, google_maps_url FROM public.competitors WHERE id = $1`,
+      [id]
+    );
+    if (competitorRes.rowCount === 0) {
+      return res.status(404).json({ error: "Competitor not found" });
+    }
+    const competitor = competitorRes.rows[0];
+
+    const result = await pool.query(
+      `
+      SELECT id, source, url, created_at
+      FROM public.competitor_sources
+      WHERE competitor_id = $1
+      ORDER BY created_at
+      `,
+      [id]
+    );
+
+    const primary = competitor.google_maps_url
+      ? [{ id: null, source: "google_maps", url: competitor.google_maps_url, primary: true }]
+      : [];
+
+    res.json({
+      status: "ok",
+      competitor_id: id,
+      sources: [...primary, ...result.rows.map((row) => ({ ...row, primary: false }))],
+      supported_sources: REVIEW_SOURCES.map((source) => source.name),
+    });
+  } catch (error) {
+    console.error("Error fetching competitor sources:", error);
+    res.status(500).json({ error: "Failed to fetch competitor sources" });
+  }
+});
+
+/**
+ * Link an extra review URL (Yelp, Tripadvisor, Trustpilot, ...) to a competitor
+ */
+app.post("/competitors/:id/sources", async (req, res) => {
+  const { id } = req.params;
+  const { url } = req.body || {};
+
+  if (!url || typeof url !== "string") {
+    return res.status(400).json({ error: "url is required" });
+  }
+
+  const source = findReviewSource(url.trim());
+  if (!source) {
+    return res.status(400).json({
+      error: `Unsupported review URL. Supported sources: ${REVIEW_SOURCES.map((s) => s.name).join(", ")}`,
+    });
+  }
+
+  // Google Maps links are stored in their canonical place form
+  let sourceUrl = url.trim();
+  if (source === googleMapsSource) {
+    try {
+      sourceUrl = (await resolveGoogleMapsUrl(sourceUrl)).url;
+    } catch (error) {
+      if (error instanceof GoogleMapsUrlError) {
+        return res.status(400).json({ error: error.message, reason: error.reason });
+      }
+      console.error("Error resolving source URL:", error);
+      return res.status(500).json({ error: "Failed to add competitor source" });
+    }
+  }
+
+  try {
+    const result = await pool.query(
+      `
+      INSERT INTO public.competitor_sources (competitor_id, source, url)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (competitor_id, url) DO UPDATE SET source = EXCLUDED.source
+      RETURNING id, competitor_id, source, url, created_at
+      `,
+      [id, source.name, sourceUrl]
+    );
+
+    res.status(201).json({ status: "ok", source: result.rows[0] });
+  } catch (error: any) {
+    // 23503 = foreign key violation (unknown competitor)
+    if (error?.code === "23503") {
+      return res.status(404).json({ error: "Competitor not found" });
+    }
+    console.error("Error adding competitor source:", error);
+    res.status(500).json({ error: "Failed to add competitor source" });
+  }
+});
+
+/**
+ * Unlink a review URL from a competitor
+ */
+app.delete("/competitors/:id/sources/:sourceId", async (req, res) => {
+  const { id, sourceId } = req.params;
+
+  try {
+    const result = await pool.query(
+      `DELETE FROM public.competitor_sources WHERE id = $1 AND competitor_id = $2`,
+      [sourceId, id]
+    );
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: "Source not found" });
+    }
+    res.json({ status: "ok" });
+  } catch (error) {
+    console.error("Error deleting competitor source:", error);
+    res.status(500).json({ error: "Failed to delete competitor source" });
+  }
+});
+
+/**
+ * Get reviews for a competitor
+ */
+app.get("/competitor/:id/reviews", async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const result = await pool.query(
+      `
+      SELECT 
+        id,
+        competitor_id,
+        rating,
+        review_text,
+        review_date,
+        review_date_precision,
+        reviewer_name,
+        owner_response_text,
+        owner_response_date,
+        source,
+        removed_at,
+        created_at
+      FROM public.reviews
+      WHERE competitor_id = $1
+      ORDER BY created_at DESC
+      LIMIT 100
+      `,
+      [id]
+    );
+
+    res.json({
+      status: "ok",
+      competitor_id: id,
+      reviews: result.rows,
+      count: result.rows.length,
+    });
+  } catch (error) {
+    console.error("Error fetching reviews:", error);
+    res.status(500).json({ error: "Failed to fetch reviews" });
+  }
+});
+
+/**
+ * Import a review export (CSV or JSON) for a competitor. The file is the raw
+ * request body: text/csv, or application/json (up to 1mb; larger JSON files
+ * can be sent as text/plain with format=json).
+ * Query: format = csv | json (default from the content type), preset =
+ * generic | google_takeout, map_<field> = column or dotted JSON path to
+ * override the preset, source = label (rows are stored as "import_<label>"),
+ * date_order = dmy | mdy, dry_run = true to validate without storing.
+ */
+app.post(
+  "/competitors/:id/reviews/import",
+  express.text({ type: ["text/*", "application/csv"], limit: "10mb" }),
+  async (req, res) => {
+    const { id } = req.params;
+    const query = req.query as Record<string, string | undefined>;
+
+    const contentType = req.headers["content-type"] ?? "";
+    const format =
+      query.format ??
+      (typeof req.body === "object" && req.body !== null
+        ? "json"
+        : /csv/.test(contentType)
+          ? "csv"
+          : /^\s*[[{]/.test(String(req.body ?? ""))
+            ? "json"
+            : "csv");
+    if (format !== "csv" && format !== "json") {
+      return res.status(400).json({ error: "format must be one of: csv, json" });
+    }
+
+    const presetName = query.preset ?? "generic";
+    const preset = IMPORT_PRESETS[presetName];
+    if (!preset) {
+      return res.status(400).json({
+        error: `preset must be one of: ${Object.keys(IMPORT_PRESETS).join(", ")}`,
+      });
+    }
+    const mapping: ImportMapping = { ...preset };
+    for (const field of IMPORT_FIELDS) {
+      const column = query[`map_${field}`];
+      if (column !== undefined) mapping[field] = column;
+    }
+
+    const dateOrder = query.date_order ?? "dmy";
+    if (dateOrder !== "dmy" && dateOrder !== "mdy") {
+      return res.status(400).json({ error: "date_order must be one of: dmy, mdy" });
+    }
+
+    if (req.body === undefined || req.body === "" || req.body === null) {
+      return res.status(400).json({ error: "Send the export file as the request body" });
+    }
+
+    try {
+      const existing = await pool.query(`SELECT id FROM public.competitors WHERE id = $1`, [id]);
+      if (existing.rowCount === 0) {
+        return res.status(404).json({ error: "Competitor not found" });
+      }
+
+      const report = await importReviews(id, req.body, format, {
+        source: importSourceName(query.source),
+        mapping,
+        dateOrder,
+        dryRun: query.dry_run === "true",
+      });
+
+      res.json({ status: "ok", competitor_id: id, format, preset: presetName, ...report });
+    } catch (error) {
+      if (error instanceof ReviewImportError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error importing reviews:", error);
+      res.status(500).json({ error: "Failed to import reviews" });
+    }
+  }
+);
+
+/**
+ * Get all reviews (for testing/debugging)
+ */
+app.get("/reviews", async (_req, res) => {
+  try {
+    const result = await pool.query(
+      `
+      SELECT 
+        r.id,
+        r.competitor_id,
+        c.name as competitor_name,
+        r.rating,
+        r.review_text,
+        r.review_date,
+        r.reviewer_name,
+        r.source,
+        r.created_at
+      FROM public.reviews r
+      LEFT JOIN public.competitors c ON r.competitor_id = c.id
+      ORDER BY r.created_at DESC
+      LIMIT 100
+      `
+    );
+
+    res.json({
+      status: "ok",
+      reviews: result.rows,
+      count: result.rows.length,
+    });
+  } catch (error) {
+    console.error("Error fetching all reviews:", error);
+    res.status(500).json({ error: "Failed to fetch reviews" });
+  }
+});
+
+/**
+ * Place metadata history for a competitor (official rating, review count, hours, ...)
+ */
+app.get("/competitors/:id/snapshots", async (req, res) => {
+  const { id } = req.params;
+
+  try {
+    const result = await pool.query(
+      `
+      SELECT id, source, scraped_at, name, rating::float AS rating, review_count, price_level,
+             categories, address, phone, website, opening_hours
+      FROM public.competitor_snapshots
+      WHERE competitor_id = $1
+      ORDER BY scraped_at DESC
+      LIMIT 100
+      `,
+      [id]
+    );
+
+    res.json({
+      status: "ok",
+      competitor_id: id,
+      snapshots: result.rows,
+      count: result.rows.length,
+    });
+  } catch (error) {
+    console.error("Error fetching competitor snapshots:", error);
+    res.status(500).json({ error: "Failed to fetch competitor snapshots" });
+  }
+});
+
+/**
+ * Recent review edits, removals and restorations for a competitor, newest first.
+ * Query: since = ISO date, type = edited | removed | restored, limit (max 500).
+ */
+app.get("/competitors/:id/review-changes", async (req, res) => {
+  const { id } = req.params;
+
+  const since = typeof req.query.since === "string" ? new Date(req.query.since) : null;
+  if (since && Number.isNaN(since.getTime())) {
+    return res.status(400).json({ error: "since must be an ISO date" });
+  }
+
+  const changeType = typeof req.query.type === "string" ? req.query.type : null;
+  if (changeType && !REVIEW_CHANGE_TYPES.includes(changeType as ReviewChangeType)) {
+    return res.status(400).json({
+      error: `type must be one of: ${REVIEW_CHANGE_TYPES.join(", ")}`,
+    });
+  }
+
+  const limit = req.query.limit !== undefined ? Number(req.query.limit) : 100;
+  if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+    return res.status(400).json({ error: "limit must be an integer between 1 and 500" });
+  }
+
+  try {
+    const changes = await listReviewChanges(id, {
+      since,
+      changeType: changeType as ReviewChangeType | null,
+      limit,
+    });
+
+    res.json({
+      status: "ok",
+      competitor_id: id,
+      changes,
+      count: changes.length,
+    });
+  } catch (error) {
+    console.error("Error fetching review changes:", error);
+    res.status(500).json({ error: "Failed to fetch review changes" });
+  }
+});
+
+/**
+ * Scrape attempts for a competitor, newest first, each with a plain-language
+ * diagnosis. ?empty=true keeps only runs that stored no reviews.
+ */
+app.get("/competitors/:id/scrape-runs", async (req, res) => {
+  const { id } = req.params;
+  const emptyOnly = req.query.empty === "true";
+
+  try {
+    const runs = await listScrapeRuns(id, emptyOnly ? 100 : 20);
+    const filtered = emptyOnly
+      ? runs.filter((run) => run.status !== "running" && !run.reviews_scraped)
+      : runs;
+
+    res.json({
+      status: "ok",
+      competitor_id: id,
+      runs: filtered.map((run) => ({ ...run, diagnosis: diagnoseScrapeRun(run) })),
+      count: filtered.length,
+    });
+  } catch (error) {
+    console.error("Error fetching scrape runs:", error);
+    res.status(500).json({ error: "Failed to fetch scrape runs" });
+  }
+});
+
+/**
+ * One scrape run with its diagnosis and links to its screenshots / HTML dumps
+ */
+app.get("/scrape-runs/:runId", async (req, res) => {
+  const { runId } = req.params;
+
+  try {
+    const run = await getScrapeRun(runId);
+    if (!run) {
+      return res.status(404).json({ error: "Scrape run not found" });
+    }
+
+    res.json({
+      status: "ok",
+      run: {
+        ...run,
+        diagnosis: diagnoseScrapeRun(run),
+        artifact_urls: run.artifacts.map((name) => `/scrape-runs/${run.id}/artifacts/${name}`),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching scrape run:", error);
+    res.status(500).json({ error: "Failed to fetch scrape run" });
+  }
+});
+
+app.get("/scrape-runs/:runId/artifacts/:name", async (req, res) => {
+  const { runId, name } = req.params;
+
+  try {
+    const run = await getScrapeRun(runId);
+    const filePath = scrapeArtifactPath(runId, name);
+    if (!run || !filePath || !run.artifacts.includes(name)) {
+      return res.status(404).json({ error: "Artifact not found" });
+    }
+    res.sendFile(filePath);
+  } catch (error) {
+    console.error("Error fetching scrape artifact:", error);
+    res.status(500).json({ error: "Failed to fetch scrape artifact" });
+  }
+});
+
+/**
+ * Get analysis for a competitor over its stored reviews.
+ * Query: from, to (YYYY-MM-DD, inclusive), source, min_rating, max_rating,
+ * limit (newest first; default every matching review), include_removed
+ * (default false: reviews no longer online don't count).
+ */
+app.get("/competitors/:id/analysis", async (req, res) => {
+  const { id } = req.params;
+
+  let filters: AnalysisFilters;
+  try {
+    filters = parseAnalysisFilters(req.query);
+  } catch (error) {
+    if (error instanceof AnalysisFilterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    throw error;
+  }
+
+  try {
+    const existing = await pool.query(
+      `SELECT id FROM public.competitors WHERE id = $1`,
+      [id]
+    );
+    if (existing.rowCount === 0) {
+      return res.status(404).json({ error: "Competitor not found" });
+    }
+    const analysis = await analyzeCompetitor(id, filters);
+    res.json({ status: "ok", analysis });
+  } catch (error) {
+    console.error("Error analyzing competitor:", error);
+    res.status(500).json({ status: "error", error: "Failed to analyze competitor" });
+  }
+});
+  
+/**
+ * Review count, average rating and sentiment of a competitor per week or
+ * month, with a rolling average, emerging keywords and the rating trend.
+ * Query: interval = "week" | "month" (default month), window = buckets in the
+ * rolling average (default 3, max 12), and the filters of /analysis except limit.
+ */
+app.get("/competitors/:id/analysis/trends", async (req, res) => {
+  const { id } = req.params;
+
+  const interval = (req.query.interval || "month") as TrendInterval;
+  if (!TREND_INTERVALS.includes(interval)) {
+    return res.status(400).json({
+      error: `interval must be one of: ${TREND_INTERVALS.join(", ")}`,
+    });
+  }
+
+  const window = req.query.window !== undefined ? Number(req.query.window) : 3;
+  if (!Number.isInteger(window) || window < 1 || window > 12) {
+    return res.status(400).json({ error: "window must be an integer between 1 and 12" });
+  }
+
+  let filters: AnalysisFilters;
+  try {
+    filters = { ...parseAnalysisFilters(req.query), limit: null };
+  } catch (error) {
+    if (error instanceof AnalysisFilterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    throw error;
+  }
+
+  try {
+    const existing = await pool.query(`SELECT id FROM public.competitors WHERE id = $1`, [id]);
+    if (existing.rowCount === 0) {
+      return res.status(404).json({ error: "Competitor not found" });
+    }
+
+    const trends = await analyzeCompetitorTrends(id, interval, window, filters);
+    res.json({ status: "ok", trends });
+  } catch (error) {
+    console.error("Error analyzing competitor trends:", error);
+    res.status(500).json({ error: "Failed to analyze competitor trends" });
+  }
+});
+
+/**
+ * Signs of suspicious reviews: bursts, near-duplicate texts, 5★ reviews by
+ * single-review accounts, rating-only 5★ spikes and ratings contradicting the
+ * text, each with the reviews behind it.
+ * Query: the filters of GET /competitors/:id/analysis.
+ */
+app.get("/competitors/:id/anomalies", async (req, res) => {
+  const { id } = req.params;
+
+  let filters: AnalysisFilters;
+  try {
+    filters = parseAnalysisFilters(req.query);
+  } catch (error) {
+    if (error instanceof AnalysisFilterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    throw error;
+  }
+
+  try {
+    const existing = await pool.query(`SELECT id FROM public.competitors WHERE id = $1`, [id]);
+    if (existing.rowCount === 0) {
+      return res.status(404).json({ error: "Competitor not found" });
+    }
+
+    const anomalies = await detectReviewAnomalies(id, filters);
+    res.json({ status: "ok", anomalies });
+  } catch (error) {
+    console.error("Error detecting review anomalies:", error);
+    res.status(500).json({ error: "Failed to detect review anomalies" });
+  }
+});
+
+/**
+ * The business's own listing side by side with each competitor: rating,
+ * sentiment, aspect scores, review velocity and keyword gaps, each flagged as
+ * leading or lagging. Query: the filters of GET /competitors/:id/analysis.
+ */
+app.get("/businesses/:id/comparison", async (req, res) => {
+  const { id } = req.params;
+
+  let filters: AnalysisFilters;
+  try {
+    filters = parseAnalysisFilters(req.query);
+  } catch (error) {
+    if (error instanceof AnalysisFilterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    throw error;
+  }
+
+  try {
+    const comparison = await compareBusiness(id, filters);
+    res.json({ status: "ok", comparison });
+  } catch (error) {
+    if (error instanceof ComparisonError) {
+      const status = error.reason === "business_not_found" ? 404 : 400;
+      return res.status(status).json({ error: error.message, reason: error.reason });
+    }
+    console.error("Error comparing business:", error);
+    res.status(500).json({ error: "Failed to compare business" });
+  }
+});
+
+  /**
+ * Generate a report for a business + competitor
+ * For now, no auth; later we will check user ownership.
+ * Body (or query): the analysis filters of GET /competitors/:id/analysis;
+ * include_anomalies = true adds a section on suspicious reviews.
+ */
+app.post(
+  "/businesses/:businessId/competitors/:competitorId/report",
+  async (req, res) => {
+    const { businessId, competitorId } = req.params;
+
+    const params = { ...req.query, ...(req.body || {}) };
+    const includeAnomalies = params.include_anomalies ?? false;
+    if (![true, false, "true", "false"].includes(includeAnomalies)) {
+      return res.status(400).json({ error: "include_anomalies must be true or false" });
+    }
+
+    let filters: AnalysisFilters;
+    try {
+      filters = parseAnalysisFilters(params);
+    } catch (error) {
+      if (error instanceof AnalysisFilterError) {
+        return res.status(400).json({ error: error.message });
+      }
+      throw error;
+    }
+
+    try {
+      const existing = await pool.query(
+        `
+        SELECT c.id
+        FROM public.competitors c
+        JOIN public.businesses b ON b.id = $1
+        WHERE c.id = $2
+        `,
+        [businessId, competitorId]
+      );
+      if (existing.rowCount === 0) {
+        return res.status(404).json({ error: "Business or competitor not found" });
+      }
+
+      const job = await enqueueJob("generate_report", {
+        business_id: businessId,
+        competitor_id: competitorId,
+        filters,
+        include_anomalies: includeAnomalies === true || includeAnomalies === "true",
+      });
+
+      res.status(202).json({
+        status: "queued",
+        job_id: job.id,
+        job_url: `/jobs/${job.id}`,
+        events_url: `/jobs/${job.id}/events`,
       });
     } catch (error: any) {
-      console.error("Error generating report:", error);
+      console.error("Error queueing report:", error);
       res.status(500).json({
         status: "error",
-        error: error?.message || "Failed to generate report",
+        error: error?.message || "Failed to queue report",
       });
     }
   }
@@ -0,0 +1,210 @@
+import crypto from "crypto";
+import { pool } from "./db";
+import { recordReviewRevision } from "./reviewChanges";
+import { resolveReviewDate } from "./scrapers/relativeDates";
+
+export type ReviewInput = {
+  external_id: string | null;
+  rating: number | null;
+  review_text: string | null;
+  review_date: string | null; // as shown on the platform, e.g. "3 months ago"
+  reviewer_name: string | null;
+  reviewer_review_count: number | null; // as shown next to the name, e.g. "1 review"
+  owner_response_text: string | null; // the business's public reply, if any
+  owner_response_date: string | null; // as shown, like review_date
+};
+
+export type IngestResult = {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  edited: number; // updated rows whose rating or text changed, recorded as revisions
+};
+
+function normalizeForFingerprint(value: string | null): string {
+  return (value ?? "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Stable identity for a review. Prefer the platform's own id (Google's
+ * data-review-id); otherwise fall back to a hash of name, text and rating so
+ * re-scraping the same review always yields the same key.
+ */
+export function reviewKey(review: ReviewInput): string {
+  if (review.external_id) {
+    return review.external_id;
+  }
+
+  const fingerprint = [
+    normalizeForFingerprint(review.reviewer_name),
+    normalizeForFingerprint(review.review_text),
+    review.rating ?? "",
+  ].join("|");
+
+  return `fp:${crypto.createHash("sha1").update(fingerprint).digest("hex")}`;
+}
+
+/**
+ * Upsert scraped reviews on (competitor_id, source, external_id).
+ * Rows whose rating, text, reviewer name and owner reply are identical are
+ * left alone and counted as unchanged.
+ *
+ * Relative dates are resolved against `scrapedAt`; the original string is kept
+ * in raw_data. An existing row keeps its date, since an earlier scrape saw a
+ * finer-grained phrase ("2 days ago" rather than "a month ago").
+ *
+ * `scrapeLanguage` is the UI language the page was served in, which decides
+ * how the date phrases and rating labels were worded.
+ *
+ * A changed rating or text is recorded as an 'edited' revision; a review that
+ * was marked removed and is seen again is restored.
+ */
+export async function upsertReviews(
+  competitorId: string,
+  source: string,
+  reviews: ReviewInput[],
+  scrapedAt: Date = new Date(),
+  scrapeLanguage: string | null = null
+): Promise<IngestResult> {
+  const result: IngestResult = { inserted: 0, updated: 0, unchanged: 0, edited: 0 };
+
+  for (let idx = 0; idx < reviews.length; idx++) {
+    const review = reviews[idx];
+    if (!review) continue;
+
+    const key = reviewKey(review);
+    const resolvedDate = resolveReviewDate(review.review_date, scrapedAt);
+    const responseDate = resolveReviewDate(review.owner_response_date, scrapedAt);
+
+    try {
+      // The WHERE on DO UPDATE makes unchanged rows return nothing, and
+      // xmax = 0 tells a fresh insert apart from an update. `previous` is the
+      // row as it was before this statement, for the revision.
+      const { rows } = await pool.query<{
+        id: string;
+        inserted: boolean;
+        edited: boolean;
+        restored: boolean;
+        old_rating: number | null;
+        old_text: string | null;
+      }>(
+        `
+        WITH previous AS (
+          SELECT rating, review_text, removed_at
+          FROM public.reviews
+          WHERE competitor_id = $1 AND source = $10 AND external_id = $2
+        )
+        INSERT INTO public.reviews (
+          competitor_id, external_id, rating, review_text, review_date,
+          review_date_precision, review_date_earliest, review_date_latest,
+          reviewer_name, source, raw_data, owner_response_text, owner_response_date,
+          scrape_language, reviewer_review_count
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+        ON CONFLICT (competitor_id, source, external_id) DO UPDATE
+        SET rating = EXCLUDED.rating,
+            review_text = EXCLUDED.review_text,
+            reviewer_name = EXCLUDED.reviewer_name,
+            -- the count when the review was first seen, not what the reviewer wrote since
+            reviewer_review_count = COALESCE(public.reviews.reviewer_review_count, EXCLUDED.reviewer_review_count),
+            review_date = COALESCE(public.reviews.review_date, EXCLUDED.review_date),
+            review_date_precision = COALESCE(public.reviews.review_date_precision, EXCLUDED.review_date_precision),
+            review_date_earliest = COALESCE(public.reviews.review_date_earliest, EXCLUDED.review_date_earliest),
+            review_date_latest = COALESCE(public.reviews.review_date_latest, EXCLUDED.review_date_latest),
+            raw_data = EXCLUDED.raw_data,
+            scrape_language = EXCLUDED.scrape_language,
+            owner_response_text = EXCLUDED.owner_response_text,
+            -- same reply: keep the date from the scrape that first saw it
+            owner_response_date = CASE
+              WHEN public.reviews.owner_response_text IS NOT DISTINCT FROM EXCLUDED.owner_response_text
+                THEN COALESCE(public.reviews.owner_response_date, EXCLUDED.owner_response_date)
+              ELSE EXCLUDED.owner_response_date
+            END,
+            removed_at = NULL
+        WHERE (public.reviews.rating, public.reviews.review_text, public.reviews.reviewer_name,
+               public.reviews.owner_response_text)
+          IS DISTINCT FROM (EXCLUDED.rating, EXCLUDED.review_text, EXCLUDED.reviewer_name,
+               EXCLUDED.owner_response_text)
+          OR public.reviews.removed_at IS NOT NULL
+        RETURNING
+          id,
+          (xmax = 0) AS inserted,
+          ((SELECT rating FROM previous), (SELECT review_text FROM previous))
+            IS DISTINCT FROM (rating, review_text) AS edited,
+          (SELECT removed_at FROM previous) IS NOT NULL AS restored,
+          (SELECT rating FROM previous) AS old_rating,
+          (SELECT review_text FROM previous) AS old_text
+        `,
+        [
+          competitorId,
+          key,
+          review.rating,
+          review.review_text,
+          resolvedDate?.date ?? null,
+          resolvedDate?.precision ?? null,
+          resolvedDate?.earliest ?? null,
+          resolvedDate?.latest ?? null,
+          review.reviewer_name,
+          source,
+          // store raw struct as jsonb, including the original date string
+          JSON.stringify({ ...review, scraped_at: scrapedAt.toISOString() }),
+          review.owner_response_text,
+          responseDate?.date ?? null,
+          scrapeLanguage,
+          review.reviewer_review_count,
+        ]
+      );
+
+      const row = rows[0];
+      if (!row) {
+        result.unchanged++;
+      } else if (row.inserted) {
+        result.inserted++;
+      } else {
+        result.updated++;
+
+        const before = { rating: row.old_rating, text: row.old_text };
+        const after = { rating: review.rating, text: review.review_text };
+        if (row.edited) {
+          result.edited++;
+          await recordReviewRevision(row.id, competitorId, source, "edited", scrapedAt, before, after);
+        }
+        if (row.restored) {
+          await recordReviewRevision(row.id, competitorId, source, "restored", scrapedAt, before, after);
+        }
+      }
+    } catch (dbError) {
+      console.error(`✗ Error upserting review ${idx + 1}:`, dbError);
+      // Continue with next review instead of failing completely
+      continue;
+    }
+  }
+
+  console.log(
+    `Upserted ${reviews.length} reviews: ${result.inserted} inserted, ${result.updated} updated (${result.edited} edited), ${result.unchanged} unchanged`
+  );
+
+  return result;
+}
+
+/**
+ * Keys of every review already stored for a competitor and source, used by
+ * incremental scrapes to know where to stop.
+ */
+export async function loadKnownReviewKeys(
+  competitorId: string,
+  source: string
+): Promise<Set<string>> {
+  const { rows } = await pool.query<{ external_id: string }>(
+    `
+    SELECT external_id
+    FROM public.reviews
+    WHERE competitor_id = $1
+      AND source = $2
+      AND external_id IS NOT NULL
+    `,
+    [competitorId, source]
+  );
+
+  return new Set(rows.map((row) => row.external_id));
+}
@@ -0,0 +1,287 @@
+import os from "os";
+import { pool } from "./db";
+
+/**
+ * Durable job queue on public.jobs. The API enqueues and answers 202 right
+ * away; the worker loop (worker.ts) claims jobs with SKIP LOCKED, so several
+ * processes can share the table without running a job twice.
+ */
+
+export type JobType = "scrape_competitor" | "generate_report";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "dead";
+
+export type JobProgress = {
+  step: string; // what the job is doing, e.g. "Scraping google_maps"
+  done: number;
+  total: number;
+};
+
+export type Job = {
+  id: string;
+  type: JobType;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  progress: JobProgress | null;
+  result: Record<string, unknown> | null;
+  last_error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+};
+
+/**
+ * One step of a job as streamed by GET /jobs/:id/events. `type` is stable
+ * for clients to switch on (queued, started, consent_handled, reviews_loaded,
+ * rendering_pdf, retrying, done, failed, ...); `message` is for display.
+ */
+export type JobEvent = {
+  id: string; // bigserial, sent as the SSE event id
+  job_id: string;
+  type: string;
+  message: string;
+  data: Record<string, unknown>;
+  created_at: string;
+};
+
+/**
+ * Thrown by a job handler when trying again can't help (the competitor was
+ * deleted, every source is blocked, ...). The job goes straight to 'dead';
+ * `details` is kept as its result.
+ */
+export class PermanentJobError extends Error {
+  constructor(
+    message: string,
+    readonly details: Record<string, unknown> | null = null
+  ) {
+    super(message);
+    this.name = "PermanentJobError";
+  }
+}
+
+const DEFAULT_MAX_ATTEMPTS = Number(process.env.JOB_MAX_ATTEMPTS) || 3;
+// Delay before the first retry; doubled for every further attempt
+const RETRY_BASE_DELAY_MS = Number(process.env.JOB_RETRY_BASE_MS) || 30_000;
+// A running job whose lock wasn't refreshed for this long is assumed to belong to a dead worker
+const LOCK_TIMEOUT_MS = Number(process.env.JOB_LOCK_TIMEOUT_MS) || 15 * 60_000;
+// How often a worker refreshes the locks of its running jobs
+export const JOB_HEARTBEAT_INTERVAL_MS = Math.floor(LOCK_TIMEOUT_MS / 3);
+
+export const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+const JOB_COLUMNS = `
+  id, type, payload, status, attempts, max_attempts, run_at, progress, result,
+  last_error, created_at, started_at, finished_at
+`;
+
+/**
+ * Add a job to the queue. With `runAt`, it isn't claimed before that time.
+ */
+export async function enqueueJob(
+  type: JobType,
+  payload: Record<string, unknown>,
+  maxAttempts = DEFAULT_MAX_ATTEMPTS,
+  runAt: Date | null = null
+): Promise<Job> {
+  const { rows } = await pool.query<Job>(
+    `
+    INSERT INTO public.jobs (type, payload, max_attempts, run_at)
+    VALUES ($1, $2, $3, COALESCE($4, now()))
+    RETURNING ${JOB_COLUMNS}
+    `,
+    [type, JSON.stringify(payload), maxAttempts, runAt]
+  );
+  const job = rows[0]!;
+  console.log(`Enqueued ${type} job ${job.id}`);
+  await recordJobEvent(job.id, "queued", "Waiting for a worker", { run_at: job.run_at });
+  return job;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Ids that aren't uuids can't match a job (and would make Postgres raise)
+export async function getJob(jobId: string): Promise<Job | null> {
+  if (!UUID_PATTERN.test(jobId)) return null;
+  const { rows } = await pool.query<Job>(
+    `SELECT ${JOB_COLUMNS} FROM public.jobs WHERE id = $1`,
+    [jobId]
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Claim the oldest due job, or null when there is none. The attempt is
+ * counted when the job is claimed, so a worker that dies mid-job still uses
+ * one up.
+ */
+export async function claimNextJob(workerId = WORKER_ID): Promise<Job | null> {
+  const { rows } = await pool.query<Job>(
+    `
+    UPDATE public.jobs
+    SET status = 'running',
+        attempts = attempts + 1,
+        locked_at = now(),
+        locked_by = $1,
+        started_at = COALESCE(started_at, now()),
+        last_error = NULL
+    WHERE id = (
+      SELECT id
+      FROM public.jobs
+      WHERE status = 'queued' AND run_at <= now()
+      ORDER BY run_at, created_at
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING ${JOB_COLUMNS}
+    `,
+    [workerId]
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Updates of a running job only apply while `workerId` holds its lock: once
+ * requeueStaleJobs gave the job to another worker, the old run can't
+ * overwrite the new one. Each returns whether the lock was still held.
+ */
+
+export async function updateJobProgress(
+  jobId: string,
+  progress: JobProgress,
+  workerId = WORKER_ID
+): Promise<boolean> {
+  const { rowCount } = await pool.query(
+    `
+    UPDATE public.jobs
+    SET progress = $2, locked_at = now()
+    WHERE id = $1 AND status = 'running' AND locked_by = $3
+    `,
+    [jobId, JSON.stringify(progress), workerId]
+  );
+  return rowCount === 1;
+}
+
+// Keep the lock of a job that runs longer than LOCK_TIMEOUT_MS
+export async function heartbeatJob(jobId: string, workerId = WORKER_ID): Promise<boolean> {
+  const { rowCount } = await pool.query(
+    `
+    UPDATE public.jobs
+    SET locked_at = now()
+    WHERE id = $1 AND status = 'running' AND locked_by = $2
+    `,
+    [jobId, workerId]
+  );
+  return rowCount === 1;
+}
+
+export async function completeJob(
+  jobId: string,
+  result: Record<string, unknown>,
+  workerId = WORKER_ID
+): Promise<boolean> {
+  const { rowCount } = await pool.query(
+    `
+    UPDATE public.jobs
+    SET status = 'succeeded',
+        result = $2,
+        finished_at = now(),
+        locked_at = NULL,
+        locked_by = NULL
+    WHERE id = $1 AND status = 'running' AND locked_by = $3
+    `,
+    [jobId, JSON.stringify(result), workerId]
+  );
+  return rowCount === 1;
+}
+
+/**
+ * Record a failed attempt: back to 'queued' with exponential backoff while
+ * attempts remain, otherwise (or for a PermanentJobError) to 'dead'. Null
+ * when the worker no longer held the job's lock.
+ */
+export async function failJob(
+  job: Job,
+  error: unknown,
+  workerId = WORKER_ID
+): Promise<JobStatus | null> {
+  const message = error instanceof Error ? error.message : String(error);
+  const permanent = error instanceof PermanentJobError;
+  const dead = permanent || job.attempts >= job.max_attempts;
+  const retryDelayMs = RETRY_BASE_DELAY_MS * 2 ** Math.max(job.attempts - 1, 0);
+
+  const { rowCount } = await pool.query(
+    `
+    UPDATE public.jobs
+    SET status = $2,
+        last_error = $3,
+        result = COALESCE($4, result),
+        run_at = CASE WHEN $2 = 'queued' THEN now() + make_interval(secs => $5) ELSE run_at END,
+        finished_at = CASE WHEN $2 = 'dead' THEN now() ELSE NULL END,
+        locked_at = NULL,
+        locked_by = NULL
+    WHERE id = $1 AND status = 'running' AND locked_by = $6
+    `,
+    [
+      job.id,
+      dead ? "dead" : "queued",
+      message,
+      permanent && error.details ? JSON.stringify(error.details) : null,
+      retryDelayMs / 1000,
+      workerId,
+    ]
+  );
+  if (rowCount !== 1) return null;
+  return dead ? "dead" : "queued";
+}
+
+/**
+ * Put running jobs whose worker stopped answering (crash, deploy) back in the
+ * queue, or in 'dead' if that was their last attempt.
+ */
+export async function requeueStaleJobs(): Promise<number> {
+  const { rowCount } = await pool.query(
+    `
+    UPDATE public.jobs
+    SET status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'queued' END,
+        last_error = COALESCE(last_error, 'Worker stopped while running the job'),
+        finished_at = CASE WHEN attempts >= max_attempts THEN now() ELSE NULL END,
+        locked_at = NULL,
+        locked_by = NULL
+    WHERE status = 'running'
+      AND locked_at < now() - make_interval(secs => $1)
+    `,
+    [LOCK_TIMEOUT_MS / 1000]
+  );
+  return rowCount ?? 0;
+}
+
+export async function recordJobEvent(
+  jobId: string,
+  type: string,
+  message: string,
+  data: Record<string, unknown> = {}
+) {
+  await pool.query(
+    `INSERT INTO public.job_events (job_id, type, message, data) VALUES ($1, $2, $3, $4)`,
+    [jobId, type, message, JSON.stringify(data)]
+  );
+}
+
+/**
+ * Events of a job in order, after the event id a client already has.
+ */
+export async function listJobEvents(jobId: string, afterId = "0"): Promise<JobEvent[]> {
+  const { rows } = await pool.query<JobEvent>(
+    `
+    SELECT id, job_id, type, message, data, created_at
+    FROM public.job_events
+    WHERE job_id = $1 AND id > $2
+    ORDER BY id
+    `,
+    [jobId, afterId]
+  );
+  return rows;
+}
@@ -0,0 +1,167 @@
+import { pool } from "./db";
+import { splitSentences } from "./aspects";
+import { stopwordsFor, tokenizeWords, type ReviewLanguage } from "./languages";
+import { scoreSentiment, type SentimentLabel } from "./sentiment";
+
+/**
+ * Keywords and phrases (2–3 words, "friendly staff", "lange wachttijd") of a
+ * competitor's reviews, ranked by how distinctive they are: TF-IDF with the
+ * reviews of all competitors of the same business as the corpus, so words
+ * every restaurant gets ("food", "place") sink and the ones particular to
+ * this competitor rise.
+ */
+
+export type KeywordInsight = {
+  term: string;
+  words: number; // 1 for a keyword, 2–3 for a phrase
+  frequency: number; // reviews of this competitor using it
+  peer_frequency: number | null; // % of the other competitors' reviews using it
+  distinctiveness: number; // TF-IDF against all the business's competitors
+  sentiment: SentimentLabel; // of the sentences using it
+  sentiment_score: number; // mean score of those sentences
+  example_review_ids: string[];
+};
+
+export type KeywordReview = {
+  id: string;
+  text: string; // cleaned
+  language: ReviewLanguage | null;
+};
+
+const MAX_PHRASE_WORDS = 3;
+const EXAMPLES_PER_KEYWORD = 3;
+// Peer reviews per competitor taken into the corpus, newest first
+const PEER_REVIEWS_PER_COMPETITOR = 1000;
+
+/**
+ * Terms (1–3 word n-grams) per sentence. Phrases may contain stopwords in the
+ * middle ("value for money") but not start or end with one, and never span
+ * two sentences.
+ */
+function sentenceTerms(text: string, language: ReviewLanguage | null): Array<{
+  sentence: string;
+  terms: Set<string>;
+}> {
+  const stopwords = stopwordsFor(language);
+  const isContent = (token: string) =>
+    token.length > 2 && !stopwords.has(token) && !/^\d+$/.test(token);
+
+  return splitSentences(text).map((sentence) => {
+    const tokens = tokenizeWords(sentence);
+    const terms = new Set<string>();
+    for (let start = 0; start < tokens.length; start++) {
+      if (!isContent(tokens[start]!)) continue;
+      for (let n = 1; n <= MAX_PHRASE_WORDS && start + n <= tokens.length; n++) {
+        if (n > 1 && !isContent(tokens[start + n - 1]!)) continue;
+        terms.add(tokens.slice(start, start + n).join(" "));
+      }
+    }
+    return { sentence, terms };
+  });
+}
+
+// Every term of a review, e.g. to look up whether it mentions a keyword
+export function reviewTerms(text: string, language: ReviewLanguage | null): Set<string> {
+  const terms = new Set<string>();
+  for (const sentence of sentenceTerms(text, language)) {
+    for (const term of sentence.terms) terms.add(term);
+  }
+  return terms;
+}
+
+/**
+ * Review texts of the business's other competitors, not its own listing.
+ * Filters of the analysis are not applied: the peers are the baseline.
+ */
+export async function loadPeerReviewTexts(competitorId: string): Promise<string[]> {
+  const { rows } = await pool.query<{ review_text: string }>(
+    `
+    SELECT review_text
+    FROM (
+      SELECT r.review_text,
+             row_number() OVER (PARTITION BY r.competitor_id ORDER BY r.review_date DESC NULLS LAST) AS n
+      FROM public.reviews r
+      JOIN public.competitors c ON c.id = r.competitor_id
+      WHERE c.business_id = (SELECT business_id FROM public.competitors WHERE id = $1)
+        AND r.competitor_id <> $1
+        AND NOT c.is_self
+        AND r.review_text IS NOT NULL
+        AND r.removed_at IS NULL
+    ) peer
+    WHERE n <= $2
+    `,
+    [competitorId, PEER_REVIEWS_PER_COMPETITOR]
+  );
+  return rows.map((row) => row.review_text);
+}
+
+/**
+ * Rank the terms of `reviews` by TF-IDF. tf is the share of the competitor's
+ * reviews using a term, idf is computed over its reviews plus the peers'.
+ * A term must appear in two reviews (one, for fewer than ten), and a keyword
+ * is dropped when a longer phrase containing it is used just as often.
+ */
+export function rankKeywords(
+  reviews: KeywordReview[],
+  peerReviews: Array<Omit<KeywordReview, "id">>
+): KeywordInsight[] {
+  const peers = peerReviews.map((review) => reviewTerms(review.text, review.language));
+  type Stats = { reviewIds: string[]; sentenceScores: number[] };
+  const stats = new Map<string, Stats>();
+
+  for (const review of reviews) {
+    const seen = new Set<string>();
+    for (const { sentence, terms } of sentenceTerms(review.text, review.language)) {
+      if (terms.size === 0) continue;
+      const score = scoreSentiment(sentence, review.language).score;
+      for (const term of terms) {
+        const entry = stats.get(term) ?? { reviewIds: [], sentenceScores: [] };
+        entry.sentenceScores.push(score);
+        if (!seen.has(term)) {
+          seen.add(term);
+          entry.reviewIds.push(review.id);
+        }
+        stats.set(term, entry);
+      }
+    }
+  }
+
+  const peerFrequency = new Map<string, number>();
+  for (const terms of peers) {
+    for (const term of terms) {
+      if (stats.has(term)) peerFrequency.set(term, (peerFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const minReviews = reviews.length >= 10 ? 2 : 1;
+  const corpusSize = reviews.length + peers.length;
+  const candidates = [...stats.entries()]
+    .filter(([, entry]) => entry.reviewIds.length >= minReviews)
+    .map(([term, entry]): KeywordInsight => {
+      const frequency = entry.reviewIds.length;
+      const peerCount = peerFrequency.get(term) ?? 0;
+      const idf = Math.log((corpusSize + 1) / (frequency + peerCount + 1)) + 1;
+      const meanScore =
+        entry.sentenceScores.reduce((sum, s) => sum + s, 0) / entry.sentenceScores.length;
+      return {
+        term,
+        words: term.split(" ").length,
+        frequency,
+        peer_frequency: peers.length > 0 ? Math.round((peerCount / peers.length) * 100) : null,
+        distinctiveness: parseFloat(((frequency / reviews.length) * idf).toFixed(4)),
+        sentiment: meanScore > 1 ? "positive" : meanScore < -1 ? "negative" : "neutral",
+        sentiment_score: parseFloat(meanScore.toFixed(2)),
+        example_review_ids: entry.reviewIds.slice(0, EXAMPLES_PER_KEYWORD),
+      };
+    });
+
+  const longer = candidates.filter((c) => c.words > 1);
+  return candidates
+    .filter(
+      (c) =>
+        !longer.some(
+          (l) => l.words > c.words && l.frequency === c.frequency && ` ${l.term} `.includes(` ${c.term} `)
+        )
+    )
+    .sort((a, b) => b.distinctiveness - a.distinctiveness || b.frequency - a.frequency);
+}
@@ -0,0 +1,81 @@
+import { en } from "./lexicons/en";
+import { fr } from "./lexicons/fr";
+import { nl } from "./lexicons/nl";
+import type { LanguageLexicon } from "./lexicons/types";
+
+/**
+ * Languages the review analysis understands, and telling them apart.
+ */
+
+export type ReviewLanguage = "en" | "nl" | "fr";
+
+export const REVIEW_LANGUAGES: ReviewLanguage[] = ["en", "nl", "fr"];
+
+export const LEXICONS: Record<ReviewLanguage, LanguageLexicon> = { en, nl, fr };
+
+const STOPWORDS = Object.fromEntries(
+  REVIEW_LANGUAGES.map((language) => [language, new Set(LEXICONS[language].stopwords)])
+) as Record<ReviewLanguage, Set<string>>;
+
+const ALL_STOPWORDS = new Set(REVIEW_LANGUAGES.flatMap((language) => LEXICONS[language].stopwords));
+
+// Stopwords of one language only ("the", "het", "très"); shared ones like "de" say nothing
+const MARKER_WORDS = Object.fromEntries(
+  REVIEW_LANGUAGES.map((language) => [
+    language,
+    new Set(
+      LEXICONS[language].stopwords.filter((word) =>
+        REVIEW_LANGUAGES.every((other) => other === language || !STOPWORDS[other].has(word))
+      )
+    ),
+  ])
+) as Record<ReviewLanguage, Set<string>>;
+
+// Fewer marker words than this and the text is too short to tell
+const MIN_MARKER_WORDS = 2;
+
+// French elisions: l'accueil, d'attente, n'est, qu'on, jusqu'à
+const ELISION = /^(?:l|d|j|m|n|s|t|c|qu|jusqu|lorsqu|puisqu)'(?=\p{L})/u;
+
+/**
+ * Lower-cased words of a text, accents kept. Apostrophes stay inside words
+ * ("don't", "foto's") except French elisions, which are split off; emoji are
+ * tokens of their own.
+ */
+export function tokenizeWords(text: string): string[] {
+  return text
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/[’‘`]/g, "'")
+    .replace(/(\p{Extended_Pictographic})/gu, " $1 ")
+    .split(/[^\p{L}\p{N}\p{Extended_Pictographic}'-]+/u)
+    .map((token) => token.replace(/^['-]+|['-]+$/g, "").replace(ELISION, ""))
+    .filter((token) => token.length > 0);
+}
+
+/**
+ * The language of a review text, from the words only one language uses.
+ * Null when the text is too short or mixed to tell.
+ */
+export function detectLanguage(text: string): ReviewLanguage | null {
+  const counts = new Map<ReviewLanguage, number>();
+  for (const token of tokenizeWords(text)) {
+    for (const language of REVIEW_LANGUAGES) {
+      if (MARKER_WORDS[language].has(token)) {
+        counts.set(language, (counts.get(language) ?? 0) + 1);
+      }
+    }
+  }
+
+  const [best, second] = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  if (!best || best[1] < MIN_MARKER_WORDS) return null;
+  if (second && second[1] === best[1]) return null;
+  return best[0];
+}
+
+/**
+ * Stopwords to leave out of keywords; every language's when it is unknown.
+ */
+export function stopwordsFor(language: ReviewLanguage | null): Set<string> {
+  return language ? STOPWORDS[language] : ALL_STOPWORDS;
+}
@@ -0,0 +1,16 @@
+import type { LanguageLexicon } from "./types";
+
+// Sentiment comes from the AFINN list built into the sentiment package
+export const en: LanguageLexicon = {
+  stopwords: [
+    "the", "a", "an", "and", "or", "to", "of", "in", "on", "for", "with", "is", "it", "this",
+    "that", "was", "were", "are", "at", "as", "but", "be", "been", "have", "has", "had", "they",
+    "them", "you", "your", "we", "our", "i", "he", "she", "his", "her", "their", "from", "so",
+    "if", "not", "very", "just", "my", "me", "us", "there", "here", "what", "which", "who",
+    "when", "would", "could", "will", "can", "did", "does", "do", "got", "get", "all", "also",
+    "too", "than", "then", "out", "up", "about", "really", "one", "some", "again", "even",
+    "only", "its", "it's", "i'm", "we're", "they're", "don't", "didn't", "wasn't", "by",
+  ],
+  negators: ["not", "no", "never", "don't", "didn't", "doesn't", "isn't", "wasn't", "aren't", "weren't", "won't", "can't", "cannot", "without", "hardly"],
+  sentiment: null,
+};
@@ -0,0 +1,40 @@
+import type { LanguageLexicon } from "./types";
+
+// Elided articles and pronouns (l', d', qu', ...) are split off before lookup
+export const fr: LanguageLexicon = {
+  stopwords: [
+    "le", "la", "les", "un", "une", "des", "du", "et", "ou", "à", "au", "aux", "en", "dans",
+    "sur", "pour", "par", "avec", "sans", "ce", "cet", "cette", "ces", "est", "était", "sont",
+    "étaient", "été", "être", "avoir", "avons", "avez", "ont", "avait", "je", "tu", "il",
+    "elle", "on", "nous", "vous", "ils", "elles", "mon", "ma", "mes", "ton", "ta", "son", "sa",
+    "ses", "notre", "nos", "votre", "vos", "leur", "leurs", "que", "qui", "quoi", "dont", "où",
+    "ne", "pas", "plus", "mais", "aussi", "très", "trop", "bien", "tout", "tous", "toute",
+    "toutes", "fait", "faire", "comme", "y", "se", "lui", "moi", "ici", "là", "alors", "donc",
+    "encore", "déjà", "même", "peu", "beaucoup", "c'est", "qu'il", "fois", "chez",
+  ],
+  negators: ["pas", "jamais", "aucun", "aucune", "rien", "sans", "ni", "guère"],
+  sentiment: {
+    // positive
+    bon: 3, bonne: 3, bons: 3, bonnes: 3, excellent: 4, excellente: 4, délicieux: 4,
+    délicieuse: 4, savoureux: 3, savoureuse: 3, parfait: 4, parfaite: 4, super: 3, top: 3,
+    génial: 4, géniale: 4, magnifique: 4, superbe: 4, formidable: 4, exceptionnel: 4,
+    exceptionnelle: 4, incroyable: 3, merveilleux: 4, merveilleuse: 4, agréable: 2,
+    sympathique: 2, sympa: 2, chaleureux: 3, chaleureuse: 3, accueillant: 2, accueillante: 2,
+    aimable: 2, gentil: 2, gentille: 2, souriant: 2, souriante: 2, serviable: 2, attentionné: 2,
+    attentionnée: 2, professionnel: 2, professionnelle: 2, rapide: 1, propre: 2, propres: 2,
+    frais: 1, fraîche: 1, copieux: 2, copieuse: 2, généreux: 2, généreuse: 2, recommande: 3,
+    recommandé: 3, conseille: 2, satisfait: 2, satisfaite: 2, content: 2, contente: 2, ravi: 3,
+    ravie: 3, régal: 4, régalé: 4, merci: 2, bravo: 3, impeccable: 4, raffiné: 2, raffinée: 2,
+    // negative
+    mauvais: -3, mauvaise: -3, horrible: -4, affreux: -4, affreuse: -4, nul: -3, nulle: -3,
+    décevant: -2, décevante: -2, déçu: -2, déçue: -2, déception: -2, dommage: -1, médiocre: -2,
+    froid: -1, froide: -1, sale: -3, sales: -3, crasseux: -3, dégoûtant: -4, dégoûtante: -4,
+    immonde: -4, lent: -2, lente: -2, attente: -1, désagréable: -2, impoli: -2, impolie: -2,
+    malpoli: -3, malpolie: -3, arrogant: -2, arrogante: -2, cher: -1, chère: -1, chers: -1,
+    arnaque: -4, inacceptable: -3, honteux: -3, honte: -3, scandaleux: -4, problème: -1,
+    problèmes: -1, plainte: -2, erreur: -2, oublié: -1, oubliée: -1, fade: -2, insipide: -2,
+    brûlé: -2, brûlée: -2, sec: -1, sèche: -1, gras: -1, grasse: -1, malade: -3, bruyant: -1,
+    bruyante: -1, catastrophe: -4, catastrophique: -4, pire: -3, évitez: -3,
+    éviter: -2, fuyez: -4,
+  },
+};
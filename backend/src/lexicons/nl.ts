@@ -0,0 +1,44 @@
+import type { LanguageLexicon } from "./types";
+
+export const nl: LanguageLexicon = {
+  stopwords: [
+    "de", "het", "een", "en", "of", "van", "in", "op", "voor", "met", "is", "was", "waren",
+    "zijn", "dit", "dat", "die", "deze", "er", "ik", "je", "jij", "u", "we", "wij", "ze", "zij",
+    "hij", "mijn", "ons", "onze", "hun", "haar", "niet", "geen", "maar", "wel", "ook",
+    "nog", "al", "dan", "als", "om", "aan", "bij", "naar", "uit", "tot", "te", "door", "over",
+    "heel", "zeer", "erg", "echt", "hebben", "heb", "hebt", "heeft", "had", "werd", "wordt",
+    "worden", "kan", "kunnen", "moet", "moeten", "zal", "zou", "wat", "wie", "waar", "hier",
+    "daar", "toen", "nu", "even", "gewoon", "alles", "veel", "meer", "weer", "zo", "men",
+    "hadden", "kregen", "kreeg", "gaan", "ging", "gingen", "keer", "iets", "nooit",
+  ],
+  negators: ["niet", "geen", "nooit", "nergens", "allesbehalve", "zonder"],
+  sentiment: {
+    // positive
+    lekker: 3, lekkere: 3, heerlijk: 4, heerlijke: 4, overheerlijk: 5, overheerlijke: 5,
+    goed: 3, goede: 3, prima: 2, top: 3, super: 3, geweldig: 4, geweldige: 4, fantastisch: 4,
+    fantastische: 4, uitstekend: 4, uitstekende: 4, perfect: 4, perfecte: 4, schitterend: 4,
+    prachtig: 3, prachtige: 3, mooi: 2, mooie: 2, leuk: 2, leuke: 2, fijn: 2, fijne: 2,
+    gezellig: 3, gezellige: 3, vriendelijk: 2, vriendelijke: 2, behulpzaam: 2, attent: 2,
+    gastvrij: 2, gastvrije: 2, hartelijk: 2, hartelijke: 2, aanrader: 3,
+    aanbevolen: 2, tevreden: 2, blij: 2, smaakvol: 2, smakelijk: 2, vers: 1, verse: 1, snel: 1,
+    vlot: 1, vlotte: 1, proper: 2, propere: 2, schoon: 2, netjes: 2, verzorgd: 2, ruim: 1,
+    aangenaam: 2, aangename: 2, sfeervol: 2, sfeervolle: 2, knap: 2, topper: 3, toppers: 3,
+    subliem: 4, sublieme: 4, voortreffelijk: 4, uitmuntend: 4, correct: 1, betaalbaar: 1,
+    zalig: 4, zalige: 4, bedankt: 2, dank: 2, dankjewel: 2, genoten: 3, genieten: 3,
+    vakkundig: 2, professioneel: 2, professionele: 2, gezond: 1, knapperig: 2, mals: 2,
+    // negative
+    slecht: -3, slechte: -3, vreselijk: -4, vreselijke: -4, verschrikkelijk: -4,
+    verschrikkelijke: -4, afschuwelijk: -4, waardeloos: -4, waardeloze: -4, belabberd: -3,
+    teleurgesteld: -2, teleurstellend: -2, teleurstellende: -2, teleurstelling: -2, jammer: -1,
+    spijtig: -1, onvriendelijk: -2, onvriendelijke: -2, onbeleefd: -2, onbeschoft: -3, nors: -2,
+    traag: -2, trage: -2, koud: -1, koude: -1, vies: -3, vieze: -3, smerig: -3, smerige: -3,
+    vuil: -2, vuile: -2, walgelijk: -4, walgelijke: -4, smakeloos: -2, flauw: -1, droog: -1,
+    droge: -1, aangebrand: -2, verbrand: -2, oudbakken: -2, vettig: -1, duur: -1, dure: -1,
+    overprijsd: -3, afzetterij: -4, oplichters: -4, klacht: -2, klachten: -2, probleem: -1,
+    problemen: -1, fout: -2, fouten: -2, vergeten: -1, ziek: -3, rommel: -2,
+    chaos: -2, chaotisch: -2, lawaai: -1, luid: -1, ongeorganiseerd: -2, arrogant: -2,
+    arrogante: -2, ondermaats: -3, middelmatig: -1, matig: -1, matige: -1, zielig: -2,
+    onaanvaardbaar: -3, schandalig: -4, schande: -3, bedrogen: -3, boos: -2, kwaad: -2,
+    genegeerd: -2, onprofessioneel: -2, slordig: -2, slordige: -2, plakkerig: -2, stinkt: -2,
+  },
+};
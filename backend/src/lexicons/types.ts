@@ -0,0 +1,11 @@
+/**
+ * What the analysis needs to know about a review language.
+ */
+export type LanguageLexicon = {
+  // Left out of keywords; the words only this language has also identify it
+  stopwords: string[];
+  // Flip the score of the sentiment word right after them ("niet lekker")
+  negators: string[];
+  // Word → score on the AFINN scale (−5 … 5); null uses the package's own list
+  sentiment: Record<string, number> | null;
+};
@@ -0,0 +1,20 @@
+export type Plan = "free" | "pro" | "agency";
+
+/**
+ * Maximum number of reviews a single scrape may collect, per plan.
+ */
+export const PLAN_REVIEW_LIMITS: Record<Plan, number> = {
+  free: 50,
+  pro: 500,
+  agency: 2000,
+};
+
+export const DEFAULT_SCRAPE_LIMIT = 50;
+
+// Own keys only, so "toString" and the like are not plans
+export function maxReviewsForPlan(plan: string | null | undefined): number {
+  if (plan && Object.prototype.hasOwnProperty.call(PLAN_REVIEW_LIMITS, plan)) {
+    return PLAN_REVIEW_LIMITS[plan as Plan];
+  }
+  return PLAN_REVIEW_LIMITS.free;
+}
@@ -1,14 +1,26 @@
-import type { CompetitorAnalysis } from "./analysis";
+import type { AnalysisFilters, CompetitorAnalysis } from "./analysis";
+import type { AnomalySignal, AnomalySignalType, ReviewAnomalies } from "./anomalies";
+import type { ComparisonVerdict, HeadToHead, KeywordGap } from "./comparison";
 
 type ReportContext = {
   businessName: string;
   competitorName: string;
   generatedAt: string;
   analysis: CompetitorAnalysis;
+  comparison: HeadToHead | null; // null when the business has no listing of its own
+  anomalies: ReviewAnomalies | null; // only when asked for
+};
+
+const ANOMALY_LABELS: Record<AnomalySignalType, string> = {
+  review_burst: "Review bursts",
+  near_duplicates: "Near-duplicate reviews",
+  single_review_reviewers: "Single-review accounts",
+  rating_only_spike: "5★ ratings without text",
+  rating_text_mismatch: "Rating contradicts text",
 };
 
 export function renderReportHtml(ctx: ReportContext): string {
-  const { businessName, competitorName, generatedAt, analysis } = ctx;
+  const { businessName, competitorName, generatedAt, analysis, comparison, anomalies } = ctx;
 
   const ratingDistRows = Object.entries(analysis.rating_distribution)
     .map(
@@ -21,9 +33,24 @@ export function renderReportHtml(ctx: ReportContext): string {
     )
     .join("");
 
-  const keywords = analysis.top_keywords
-    .slice(0, 20)
-    .map((k) => `<span class="chip">${k}</span>`)
+  // Most distinctive words and phrases, with the number of reviews using them
+  const keywords = analysis.keywords
+    .map(
+      (k) =>
+        `<span class="chip${k.sentiment === "negative" ? " chip-negative" : ""}">${escapeHtml(
+          k.term
+        )} · ${k.frequency}</span>`
+    )
+    .join("");
+
+  const phraseItems = analysis.phrases
+    .slice(0, 10)
+    .map(
+      (p) =>
+        `<li>${escapeHtml(p.term)} <span class="small">(${p.frequency} reviews, ${p.sentiment}${
+          p.peer_frequency !== null ? `; ${p.peer_frequency}% of other competitors' reviews` : ""
+        })</span></li>`
+    )
     .join("");
 
   const positiveSnippets = analysis.top_positive_snippets
@@ -34,6 +61,69 @@ export function renderReportHtml(ctx: ReportContext): string {
     .map((t) => `<li>${escapeHtml(t)}</li>`)
     .join("");
 
+  // e.g. "nl 62%, en 30%, unknown 8%"
+  const languages = Object.entries(analysis.language_breakdown)
+    .sort((a, b) => b[1] - a[1])
+    .map(([language, count]) => `${language} ${Math.round((count / analysis.total_reviews) * 100)}%`)
+    .join(", ");
+
+  const aspectRows = analysis.aspects
+    .map(
+      (a) => `
+      <tr>
+        <td>${escapeHtml(a.label)}</td>
+        <td>${a.mentions}</td>
+        <td>${a.positive}</td>
+        <td>${a.negative}</td>
+        <td>${a.net_sentiment > 0 ? "+" : ""}${a.net_sentiment}</td>
+      </tr>
+    `
+    )
+    .join("");
+
+  // Aspects that draw at least as much criticism as praise, worst first
+  const problemAreas = analysis.aspects
+    .filter((a) => a.negative > 0 && a.negative >= a.positive)
+    .sort((a, b) => b.negative - a.negative || a.net_sentiment - b.net_sentiment);
+
+  const problemAreaItems = problemAreas
+    .map(
+      (a) => `
+      <li>
+        <strong>${escapeHtml(a.label)}</strong>: negative in ${a.negative} of ${a.mentions} reviews mentioning it
+        ${a.negative_examples[0] ? `<br /><span class="small">“${escapeHtml(a.negative_examples[0])}”</span>` : ""}
+      </li>
+    `
+    )
+    .join("");
+
+  const comparisonRows = (comparison?.metrics ?? [])
+    .filter((m) => m.business !== null || m.competitor !== null)
+    .map(
+      (m) => `
+      <tr>
+        <td>${escapeHtml(m.label)}</td>
+        <td>${m.business ?? "N/A"}</td>
+        <td>${m.competitor ?? "N/A"}</td>
+        <td class="${m.verdict ?? ""}">${describeVerdict(m.verdict)}</td>
+      </tr>
+    `
+    )
+    .join("");
+
+  const anomalyItems = (anomalies?.signals ?? [])
+    .map((s) => {
+      const example = anomalyExample(s);
+      return `
+      <li>
+        <strong>${ANOMALY_LABELS[s.type]}</strong> <span class="${s.severity === "low" ? "small" : "lags"}">(${s.severity})</span>:
+        ${escapeHtml(s.summary)}
+        ${example ? `<br /><span class="small">“${escapeHtml(example)}”</span>` : ""}
+      </li>
+    `;
+    })
+    .join("");
+
   return `<!doctype html>
 <html>
 <head>
@@ -111,10 +201,20 @@ export function renderReportHtml(ctx: ReportContext): string {
       color: #1d4ed8;
       font-size: 11px;
     }
+    .chip-negative {
+      background-color: #fef2f2;
+      color: #b91c1c;
+    }
     ul {
       padding-left: 18px;
       font-size: 12px;
     }
+    .leads {
+      color: #15803d;
+    }
+    .lags {
+      color: #b91c1c;
+    }
     .small {
       font-size: 11px;
       color: #6b7280;
@@ -124,6 +224,7 @@ export function renderReportHtml(ctx: ReportContext): string {
 <body>
   <h1>Competitor Intelligence Report</h1>
   <p class="small">Generated: ${generatedAt}</p>
+  <p class="small">Reviews: ${escapeHtml(describeFilters(analysis.filters))}</p>
 
   <div class="section">
     <h2>Overview</h2>
@@ -135,15 +236,27 @@ export function renderReportHtml(ctx: ReportContext): string {
     <h2>Key Metrics</h2>
     <div class="summary-grid">
       <div class="card">
-        <div class="metric-label">Total Reviews</div>
+        <div class="metric-label">Reviews Analyzed</div>
         <div class="metric-value">${analysis.total_reviews}</div>
       </div>
       <div class="card">
-        <div class="metric-label">Average Rating</div>
+        <div class="metric-label">Average Rating (analyzed)</div>
         <div class="metric-value">${
           analysis.avg_rating !== null ? analysis.avg_rating.toFixed(2) : "N/A"
         }</div>
       </div>
+      <div class="card">
+        <div class="metric-label">Google Rating (official)</div>
+        <div class="metric-value">${
+          analysis.official?.rating != null ? analysis.official.rating.toFixed(1) : "N/A"
+        }</div>
+      </div>
+      <div class="card">
+        <div class="metric-label">Reviews on Google</div>
+        <div class="metric-value">${
+          analysis.official?.review_count != null ? analysis.official.review_count : "N/A"
+        }</div>
+      </div>
       <div class="card">
         <div class="metric-label">Sentiment (Positive)</div>
         <div class="metric-value">${analysis.sentiment_breakdown.positive}%</div>
@@ -152,9 +265,72 @@ export function renderReportHtml(ctx: ReportContext): string {
         <div class="metric-label">Sentiment (Negative)</div>
         <div class="metric-value">${analysis.sentiment_breakdown.negative}%</div>
       </div>
+      <div class="card">
+        <div class="metric-label">Owner Response Rate</div>
+        <div class="metric-value">${
+          analysis.response_rate !== null ? `${analysis.response_rate}%` : "N/A"
+        }</div>
+      </div>
+      <div class="card">
+        <div class="metric-label">Responses to 1–2★ Reviews</div>
+        <div class="metric-value">${
+          analysis.negative_response_rate !== null ? `${analysis.negative_response_rate}%` : "N/A"
+        }</div>
+      </div>
+      <div class="card">
+        <div class="metric-label">Median Response Time</div>
+        <div class="metric-value">${
+          analysis.median_response_delay_days !== null
+            ? `${analysis.median_response_delay_days} days`
+            : "N/A"
+        }</div>
+      </div>
     </div>
+    ${
+      languages
+        ? `<p class="small">Review languages: ${escapeHtml(languages)}</p>`
+        : ""
+    }
+    ${
+      analysis.official
+        ? `<p class="small">Official Google figures as of ${escapeHtml(analysis.official.scraped_at.slice(0, 10))}; other metrics are computed from the reviews we analyzed.</p>`
+        : ""
+    }
   </div>
 
+  ${
+    comparison
+      ? `<div class="section">
+    <h2>You vs. ${escapeHtml(competitorName)}</h2>
+    <table>
+      <thead>
+        <tr>
+          <th>Metric</th>
+          <th>${escapeHtml(businessName)}</th>
+          <th>${escapeHtml(competitorName)}</th>
+          <th></th>
+        </tr>
+      </thead>
+      <tbody>
+        ${comparisonRows}
+      </tbody>
+    </table>
+    ${describeKeywordGaps(
+      `Praised at ${competitorName}, rarely mentioned for you`,
+      comparison.keyword_gaps.competitor_strengths,
+      "competitor_share",
+      "business_share"
+    )}
+    ${describeKeywordGaps(
+      `Praised for you, rarely mentioned at ${competitorName}`,
+      comparison.keyword_gaps.business_strengths,
+      "business_share",
+      "competitor_share"
+    )}
+  </div>`
+      : ""
+  }
+
   <div class="section">
     <h2>Rating Distribution</h2>
     <table>
@@ -170,11 +346,35 @@ export function renderReportHtml(ctx: ReportContext): string {
     </table>
   </div>
 
+  <div class="section">
+    <h2>Sentiment by Aspect</h2>
+    ${
+      aspectRows
+        ? `<table>
+      <thead>
+        <tr>
+          <th>Aspect</th>
+          <th>Mentions</th>
+          <th>Positive</th>
+          <th>Negative</th>
+          <th>Net</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${aspectRows}
+      </tbody>
+    </table>`
+        : "<p class='small'>None of the analyzed reviews mention a specific aspect yet.</p>"
+    }
+  </div>
+
   <div class="section">
     <h2>Top Keywords</h2>
+    <p class="small">Most distinctive compared with the other competitors; red ones come up in negative sentences.</p>
     <div class="chips">
       ${keywords || "<span class='small'>Not enough data yet.</span>"}
     </div>
+    ${phraseItems ? `<h3>Phrases</h3><ul>${phraseItems}</ul>` : ""}
   </div>
 
   <div class="section">
@@ -188,6 +388,7 @@ export function renderReportHtml(ctx: ReportContext): string {
 
   <div class="section">
     <h2>Common Complaints</h2>
+    ${problemAreaItems ? `<h3>Problem areas</h3><ul>${problemAreaItems}</ul>` : ""}
     ${
       negativeSnippets
         ? `<ul>${negativeSnippets}</ul>`
@@ -195,6 +396,18 @@ export function renderReportHtml(ctx: ReportContext): string {
     }
   </div>
 
+  ${
+    anomalies
+      ? `<div class="section">
+    <h2>Review Authenticity</h2>
+    <p class="small">
+      Patterns that can point to bought or fake reviews, found in ${anomalies.reviews_checked} reviews. They are signals to look into, not proof.
+    </p>
+    ${anomalyItems ? `<ul>${anomalyItems}</ul>` : "<p class='small'>No suspicious patterns found.</p>"}
+  </div>`
+      : ""
+  }
+
   <div class="section">
     <h2>Action Hints (MVP, Rule-based)</h2>
     <p class="small">
@@ -202,8 +415,15 @@ export function renderReportHtml(ctx: ReportContext): string {
     </p>
     <ul>
       ${
-        analysis.sentiment_breakdown.negative > 20
-          ? "<li>Consider addressing the most frequent negative themes directly (e.g. staff, waiting time, pricing).</li>"
+        problemAreas.length > 0
+          ? `<li>Customers are most critical of this competitor's ${escapeHtml(
+              problemAreas
+                .slice(0, 3)
+                .map((a) => a.label.toLowerCase())
+                .join(", ")
+            )}: make sure these are strengths of yours and say so in your marketing.</li>`
+          : analysis.sentiment_breakdown.negative > 20
+          ? "<li>Consider addressing the most frequent negative themes directly.</li>"
           : "<li>Leverage your strengths: highlight in your own marketing what customers praise most about this competitor (and outperform them there).</li>"
       }
       <li>Monitor changes in sentiment over time to see if competitor campaigns are working.</li>
@@ -214,6 +434,54 @@ export function renderReportHtml(ctx: ReportContext): string {
 </html>`;
 }
 
+// "all reviews still online" or e.g. "2025-01-01 to 2025-03-31 · google_maps · 1–2★ · newest 200"
+function describeFilters(filters: AnalysisFilters): string {
+  const parts: string[] = [];
+  if (filters.from && filters.to) parts.push(`${filters.from} to ${filters.to}`);
+  else if (filters.from) parts.push(`since ${filters.from}`);
+  else if (filters.to) parts.push(`until ${filters.to}`);
+  if (filters.source) parts.push(filters.source);
+  if (filters.min_rating !== null || filters.max_rating !== null) {
+    const min = filters.min_rating ?? 1;
+    const max = filters.max_rating ?? 5;
+    parts.push(min === max ? `${min}★` : `${min}–${max}★`);
+  }
+  if (filters.limit !== null) parts.push(`newest ${filters.limit}`);
+  if (filters.include_removed) parts.push("incl. removed");
+  return parts.length > 0 ? parts.join(" · ") : "all reviews still online";
+}
+
+// A review text that shows the signal, where it has one
+function anomalyExample(signal: AnomalySignal): string | null {
+  if (signal.type === "near_duplicates") return signal.evidence[0]?.text ?? null;
+  if (signal.type === "rating_text_mismatch") {
+    const example = signal.evidence[0];
+    return example ? `${example.rating}★: ${example.text}` : null;
+  }
+  return null;
+}
+
+function describeVerdict(verdict: ComparisonVerdict | null): string {
+  if (verdict === "leads") return "You lead";
+  if (verdict === "lags") return "You lag";
+  if (verdict === "even") return "Even";
+  return "–";
+}
+
+// e.g. "<h3>…</h3><ul><li>friendly staff (32% vs 8% of reviews)</li></ul>"
+function describeKeywordGaps(
+  title: string,
+  gaps: KeywordGap[],
+  strong: "business_share" | "competitor_share",
+  weak: "business_share" | "competitor_share"
+): string {
+  if (gaps.length === 0) return "";
+  const items = gaps
+    .map((g) => `<li>${escapeHtml(g.term)} <span class="small">(${g[strong]}% vs ${g[weak]}% of reviews)</span></li>`)
+    .join("");
+  return `<h3>${escapeHtml(title)}</h3><ul>${items}</ul>`;
+}
+
 function escapeHtml(str: string): string {
   return str
     .replace(/&/g, "&amp;")
@@ -1,13 +1,32 @@
 import path from "path";
 import fs from "fs/promises";
 import { pool } from "./db";
-import { analyzeCompetitor } from "./analysis";
+import { analyzeCompetitor, type AnalysisFilters } from "./analysis";
+import { detectReviewAnomalies, type ReviewAnomalies } from "./anomalies";
+import { compareWithCompetitor } from "./comparison";
 import { renderReportHtml } from "./reportTemplate";
-import puppeteer from "puppeteer";
+import { withBrowserPage } from "./browserPool";
+import { PermanentJobError } from "./jobs";
 
+export type ReportStep =
+  | "analyzing"
+  | "comparing"
+  | "checking_anomalies"
+  | "rendering_pdf"
+  | "saving";
+
+/**
+ * Analyse a competitor's reviews matching `filters` and render them as a PDF
+ * report, compared with the business's own listing when it has one and, with
+ * `includeAnomalies`, with a section on suspicious reviews. `onStep` is told
+ * when each stage starts.
+ */
 export async function generateCompetitorReport(
   businessId: string,
-  competitorId: string
+  competitorId: string,
+  filters: AnalysisFilters,
+  includeAnomalies = false,
+  onStep: (step: ReportStep) => void = () => {}
 ) {
   // 1. Load business & competitor info
   const businessRes = await pool.query(
@@ -15,7 +34,7 @@ export async function generateCompetitorReport(
     [businessId]
   );
   if (businessRes.rowCount === 0) {
-    throw new Error("Business not found");
+    throw new PermanentJobError("Business not found", { reason: "business_not_found" });
   }
   const business = businessRes.rows[0];
 
@@ -24,12 +43,22 @@ export async function generateCompetitorReport(
     [competitorId]
   );
   if (competitorRes.rowCount === 0) {
-    throw new Error("Competitor not found");
+    throw new PermanentJobError("Competitor not found", { reason: "competitor_not_found" });
   }
   const competitor = competitorRes.rows[0];
 
   // 2. Run analysis
-  const analysis = await analyzeCompetitor(competitorId);
+  onStep("analyzing");
+  const analysis = await analyzeCompetitor(competitorId, filters);
+
+  onStep("comparing");
+  const comparison = await compareWithCompetitor(businessId, competitor, filters, analysis);
+
+  let anomalies: ReviewAnomalies | null = null;
+  if (includeAnomalies) {
+    onStep("checking_anomalies");
+    anomalies = await detectReviewAnomalies(competitorId, filters);
+  }
 
   const generatedAt = new Date().toISOString();
   const html = renderReportHtml({
@@ -37,36 +66,37 @@ export async function generateCompetitorReport(
     competitorName: competitor.name,
     generatedAt,
     analysis,
+    comparison,
+    anomalies,
   });
 
-  // 3. Launch headless browser and create PDF
-  const browser = await puppeteer.launch({ headless: true });
-  const page = await browser.newPage();
-
-  await page.setContent(html, { waitUntil: "networkidle0" });
-
-  const pdfBuffer = await page.pdf({
-    format: "A4",
-    printBackground: true,
-    margin: {
-      top: "20mm",
-      bottom: "20mm",
-      left: "15mm",
-      right: "15mm",
-    },
-  });
+  // 3. Render the PDF in a context leased from the shared browser
+  onStep("rendering_pdf");
+  const pdfBuffer = await withBrowserPage({}, async (page) => {
+    await page.setContent(html, { waitUntil: "networkidle" });
 
-  await browser.close();
+    return page.pdf({
+      format: "A4",
+      printBackground: true,
+      margin: {
+        top: "20mm",
+        bottom: "20mm",
+        left: "15mm",
+        right: "15mm",
+      },
+    });
+  });
 
   // 4. Save PDF to local filesystem (backend/reports)
+  onStep("saving");
   const reportsDir = path.join(__dirname, "..", "reports");
   await fs.mkdir(reportsDir, { recursive: true });
 
   const reportIdRes = await pool.query(
     `insert into public.reports (business_id, competitor_id, user_id, period_start, period_end, summary)
-     values ($1, $2, $3, current_date, current_date, $4)
+     values ($1, $2, $3, coalesce($5::date, current_date), coalesce($6::date, current_date), $4)
      returning id`,
-    [businessId, competitorId, business.user_id, analysis]
+    [businessId, competitorId, business.user_id, analysis, filters.from, filters.to]
   );
   
   const reportId = reportIdRes.rows[0].id as string;
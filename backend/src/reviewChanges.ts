@@ -0,0 +1,148 @@
+import { pool } from "./db";
+
+export type ReviewChangeType = "edited" | "removed" | "restored";
+
+export const REVIEW_CHANGE_TYPES: ReviewChangeType[] = ["edited", "removed", "restored"];
+
+export type ReviewChange = {
+  id: string;
+  review_id: string;
+  source: string;
+  change_type: ReviewChangeType;
+  detected_at: string;
+  old_rating: number | null;
+  new_rating: number | null;
+  old_text: string | null;
+  new_text: string | null;
+  reviewer_name: string | null;
+  review_date: string | null;
+  removed_at: string | null;
+};
+
+// A complete scrape missing more than this share of the stored reviews is
+// more likely a broken page or parser than a mass removal
+const MAX_REMOVED_SHARE = 0.5;
+
+export async function recordReviewRevision(
+  reviewId: string,
+  competitorId: string,
+  source: string,
+  changeType: ReviewChangeType,
+  detectedAt: Date,
+  before: { rating: number | null; text: string | null },
+  after: { rating: number | null; text: string | null }
+) {
+  await pool.query(
+    `
+    INSERT INTO public.review_revisions (
+      review_id, competitor_id, source, change_type, detected_at,
+      old_rating, new_rating, old_text, new_text
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `,
+    [
+      reviewId,
+      competitorId,
+      source,
+      changeType,
+      detectedAt,
+      before.rating,
+      after.rating,
+      before.text,
+      after.text,
+    ]
+  );
+}
+
+/**
+ * After a complete scrape of a source (full mode, feed read to the end), mark
+ * the stored reviews it no longer showed as removed. `seenKeys` are the keys
+ * of every review on the page, not just the ones stored by this scrape.
+ *
+ * Reviews without a platform id are keyed by a fingerprint of their text, so
+ * an edit to one of those shows up as a removal plus a new review.
+ */
+export async function markRemovedReviews(
+  competitorId: string,
+  source: string,
+  seenKeys: Set<string>,
+  detectedAt: Date = new Date()
+): Promise<number> {
+  if (seenKeys.size === 0) return 0;
+
+  const { rows: active } = await pool.query<{ id: string; external_id: string }>(
+    `
+    SELECT id, external_id
+    FROM public.reviews
+    WHERE competitor_id = $1
+      AND source = $2
+      AND removed_at IS NULL
+    `,
+    [competitorId, source]
+  );
+
+  const missing = active.filter((row) => !seenKeys.has(row.external_id));
+  if (missing.length === 0) return 0;
+  if (missing.length > active.length * MAX_REMOVED_SHARE) {
+    console.log(
+      `Not marking ${missing.length} of ${active.length} ${source} reviews as removed: too many at once, the page was probably incomplete`
+    );
+    return 0;
+  }
+
+  const { rows: removed } = await pool.query<{
+    id: string;
+    rating: number | null;
+    review_text: string | null;
+  }>(
+    `
+    UPDATE public.reviews
+    SET removed_at = $2
+    WHERE id = ANY($1::uuid[]) AND removed_at IS NULL
+    RETURNING id, rating, review_text
+    `,
+    [missing.map((row) => row.id), detectedAt]
+  );
+
+  for (const row of removed) {
+    await recordReviewRevision(
+      row.id,
+      competitorId,
+      source,
+      "removed",
+      detectedAt,
+      { rating: row.rating, text: row.review_text },
+      { rating: null, text: null }
+    );
+  }
+
+  console.log(`Marked ${removed.length} ${source} reviews as removed`);
+  return removed.length;
+}
+
+/**
+ * Edits, removals and restorations detected for a competitor's reviews,
+ * newest first.
+ */
+export async function listReviewChanges(
+  competitorId: string,
+  options: { since?: Date | null; changeType?: ReviewChangeType | null; limit?: number } = {}
+): Promise<ReviewChange[]> {
+  const { rows } = await pool.query<ReviewChange>(
+    `
+    SELECT rv.id, rv.review_id, rv.source, rv.change_type, rv.detected_at,
+           rv.old_rating::float AS old_rating, rv.new_rating::float AS new_rating,
+           rv.old_text, rv.new_text,
+           r.reviewer_name, r.review_date, r.removed_at
+    FROM public.review_revisions rv
+    JOIN public.reviews r ON r.id = rv.review_id
+    WHERE rv.competitor_id = $1
+      AND ($2::timestamptz IS NULL OR rv.detected_at >= $2)
+      AND ($3::text IS NULL OR rv.change_type = $3)
+    ORDER BY rv.detected_at DESC
+    LIMIT $4
+    `,
+    [competitorId, options.since ?? null, options.changeType ?? null, options.limit ?? 100]
+  );
+  return rows;
+}
@@ -0,0 +1,418 @@
+import { pool } from "./db";
+import { reviewKey, upsertReviews, type IngestResult, type ReviewInput } from "./ingest";
+
+/**
+ * Bulk import of review exports (Google Business Profile takeout, other
+ * tools) that scraping can't reach. Records are mapped onto ReviewInput
+ * fields, validated row by row and upserted under their own source value.
+ */
+
+export type ImportFormat = "csv" | "json";
+
+export type ImportField = keyof ReviewInput;
+
+export const IMPORT_FIELDS: ImportField[] = [
+  "external_id",
+  "rating",
+  "review_text",
+  "review_date",
+  "reviewer_name",
+  "owner_response_text",
+  "owner_response_date",
+];
+
+// Field -> column name (CSV header) or dotted path (JSON, "reviewer.displayName")
+export type ImportMapping = Partial<Record<ImportField, string>>;
+
+export const IMPORT_PRESETS: Record<string, ImportMapping> = {
+  // Columns named after the fields themselves
+  generic: {
+    external_id: "external_id",
+    rating: "rating",
+    review_text: "review_text",
+    review_date: "review_date",
+    reviewer_name: "reviewer_name",
+    owner_response_text: "owner_response_text",
+    owner_response_date: "owner_response_date",
+  },
+  // Google Business Profile takeout, reviews.json
+  google_takeout: {
+    external_id: "name",
+    rating: "starRating",
+    review_text: "comment",
+    review_date: "createTime",
+    reviewer_name: "reviewer.displayName",
+    owner_response_text: "reviewReply.comment",
+    owner_response_date: "reviewReply.updateTime",
+  },
+};
+
+// How to read ambiguous numeric dates like 03/04/2024
+export type DateOrder = "dmy" | "mdy";
+
+export type ImportOptions = {
+  source: string;
+  mapping: ImportMapping;
+  dateOrder: DateOrder;
+  dryRun: boolean;
+};
+
+export type ImportRowError = {
+  row: number; // CSV: spreadsheet row (header is row 1); JSON: 1-based record number
+  field: ImportField | null;
+  value: string | null;
+  error: string;
+};
+
+export type ImportReport = IngestResult & {
+  source: string;
+  total_rows: number;
+  valid_rows: number;
+  duplicates: number; // rows skipped as repeats within the file or of stored reviews
+  dry_run: boolean;
+  error_count: number;
+  errors: ImportRowError[]; // the first MAX_REPORTED_ERRORS, by row
+};
+
+export class ReviewImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReviewImportError";
+  }
+}
+
+// Errors listed in the report; error_count still counts all of them
+const MAX_REPORTED_ERRORS = 500;
+
+const RATING_WORDS: Record<string, number> = {
+  ONE: 1,
+  TWO: 2,
+  THREE: 3,
+  FOUR: 4,
+  FIVE: 5,
+};
+
+/**
+ * Source value for imported rows: "import" or "import_<label>", so imports
+ * never mix with a scraper's rows.
+ */
+export function importSourceName(label: string | null | undefined): string {
+  const cleaned = (label ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .replace(/^import_?/, "");
+  return cleaned ? `import_${cleaned}` : "import";
+}
+
+/**
+ * Minimal RFC 4180 reader: quoted fields, "" escapes, newlines inside quotes,
+ * CRLF, a UTF-8 BOM. The delimiter is "," or ";" (Excel in Belgium and the
+ * Netherlands), whichever the header line has more of.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const headerLine = input.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter =
+    (headerLine.match(/;/g)?.length ?? 0) > (headerLine.match(/,/g)?.length ?? 0) ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines (often a trailing one) are not rows
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+type ImportRecord = { row: number; data: Record<string, unknown> };
+
+function readRecords(content: unknown, format: ImportFormat): ImportRecord[] {
+  if (format === "csv") {
+    if (typeof content !== "string") {
+      throw new ReviewImportError("CSV content must be sent as text.");
+    }
+    const [header, ...rows] = parseCsv(content);
+    if (!header) throw new ReviewImportError("The CSV file is empty.");
+
+    const columns = header.map((name) => name.trim());
+    return rows.map((values, i) => ({
+      row: i + 2,
+      data: Object.fromEntries(columns.map((name, c) => [name, values[c] ?? ""])),
+    }));
+  }
+
+  let parsed = content;
+  if (typeof content === "string") {
+    try {
+      parsed = JSON.parse(content.replace(/^\uFEFF/, ""));
+    } catch (e) {
+      throw new ReviewImportError("The JSON file could not be parsed.");
+    }
+  }
+  // A bare array, or an object holding one (takeout wraps it in { reviews: [...] })
+  const wrapped =
+    typeof parsed === "object" && parsed !== null && "reviews" in parsed
+      ? (parsed as Record<string, unknown>).reviews
+      : null;
+  const list: unknown[] | null = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray(wrapped)
+      ? wrapped
+      : null;
+  if (!list) {
+    throw new ReviewImportError('JSON must be an array of reviews or an object with a "reviews" array.');
+  }
+  return list.map((data: unknown, i: number) => ({
+    row: i + 1,
+    data: data && typeof data === "object" ? (data as Record<string, unknown>) : {},
+  }));
+}
+
+// "reviewer.displayName" -> record.reviewer.displayName; a CSV column may contain dots itself
+function readPath(data: Record<string, unknown>, path: string): unknown {
+  if (path in data) return data[path];
+  return path.split(".").reduce<unknown>((value, key) => {
+    return value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined;
+  }, data);
+}
+
+function toText(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  return text === "" ? null : text;
+}
+
+function parseRating(text: string): number | null {
+  const word = RATING_WORDS[text.toUpperCase().replace(/_STARS?$/, "")];
+  if (word !== undefined) return word;
+
+  // "4", "4.0", "4,0", "4/5", "4 stars"
+  const match = text.match(/^(\d+(?:[.,]\d+)?)\s*(?:\/\s*5|stars?|sterren|étoiles|sterne)?$/i);
+  if (!match) return null;
+  const rating = Number(match[1]!.replace(",", "."));
+  return Number.isInteger(rating) && rating >= 1 && rating <= 5 ? rating : null;
+}
+
+/**
+ * Import dates to ISO (so ingestion reads them as absolute dates). Accepts ISO
+ * dates and timestamps, and d/m/y or m/d/y with "/", "-" or "." separators.
+ */
+function parseImportDate(text: string, order: DateOrder): string | null {
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+    return Number.isNaN(new Date(text).getTime()) ? null : text;
+  }
+
+  const match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (!match) return null;
+  const [, a, b, year, hours, minutes, seconds] = match;
+  const day = Number(order === "dmy" ? a : b);
+  const month = Number(order === "dmy" ? b : a);
+
+  const date = new Date(
+    Date.UTC(Number(year), month - 1, day, Number(hours ?? 0), Number(minutes ?? 0), Number(seconds ?? 0))
+  );
+  // Rejects 31/02 and the like, which Date would roll over
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+
+  const iso = date.toISOString();
+  return hours === undefined ? iso.slice(0, 10) : iso;
+}
+
+/**
+ * Map and validate records. Returns the reviews that passed, each with its row
+ * number, and an error per rejected field.
+ */
+function mapRecords(
+  records: ImportRecord[],
+  mapping: ImportMapping,
+  dateOrder: DateOrder
+): { reviews: Array<{ row: number; review: ReviewInput }>; errors: ImportRowError[] } {
+  const reviews: Array<{ row: number; review: ReviewInput }> = [];
+  const errors: ImportRowError[] = [];
+
+  for (const { row, data } of records) {
+    const raw = (field: ImportField) => {
+      const column = mapping[field];
+      return column ? toText(readPath(data, column)) : null;
+    };
+    const rowErrors: ImportRowError[] = [];
+    const fail = (field: ImportField | null, value: string | null, error: string) =>
+      rowErrors.push({ row, field, value, error });
+
+    const ratingText = raw("rating");
+    const rating = ratingText === null ? null : parseRating(ratingText);
+    if (ratingText !== null && rating === null) {
+      fail("rating", ratingText, "Rating must be a whole number from 1 to 5.");
+    }
+
+    const dates: Partial<Record<"review_date" | "owner_response_date", string | null>> = {};
+    for (const field of ["review_date", "owner_response_date"] as const) {
+      const text = raw(field);
+      const date = text === null ? null : parseImportDate(text, dateOrder);
+      if (text !== null && date === null) {
+        fail(field, text, "Unrecognised date; use YYYY-MM-DD or DD/MM/YYYY.");
+      }
+      dates[field] = date;
+    }
+
+    const review: ReviewInput = {
+      external_id: raw("external_id"),
+      rating,
+      review_text: raw("review_text"),
+      review_date: dates.review_date ?? null,
+      reviewer_name: raw("reviewer_name"),
+      reviewer_review_count: null,
+      owner_response_text: raw("owner_response_text"),
+      owner_response_date: dates.owner_response_date ?? null,
+    };
+    if (review.rating === null && review.review_text === null && rowErrors.length === 0) {
+      fail(null, null, "Row has neither a rating nor a review text.");
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+    } else {
+      reviews.push({ row, review });
+    }
+  }
+
+  return { reviews, errors };
+}
+
+// Fingerprint keys of every stored review of the competitor, whatever its source
+async function loadStoredFingerprints(competitorId: string): Promise<Map<string, string>> {
+  const { rows } = await pool.query<{
+    rating: number | null;
+    review_text: string | null;
+    reviewer_name: string | null;
+    source: string;
+  }>(
+    `
+    SELECT rating, review_text, reviewer_name, source
+    FROM public.reviews
+    WHERE competitor_id = $1 AND removed_at IS NULL
+    `,
+    [competitorId]
+  );
+
+  const fingerprints = new Map<string, string>();
+  for (const row of rows) {
+    const key = reviewKey({
+      external_id: null,
+      rating: row.rating === null ? null : Number(row.rating),
+      review_text: row.review_text,
+      reviewer_name: row.reviewer_name,
+      reviewer_review_count: null,
+      review_date: null,
+      owner_response_text: null,
+      owner_response_date: null,
+    });
+    fingerprints.set(key, row.source);
+  }
+  return fingerprints;
+}
+
+/**
+ * Import one export file for a competitor. Invalid rows are reported, not
+ * fatal; only an unreadable file throws (ReviewImportError).
+ *
+ * Dedupe: repeats within the file are skipped, and so are rows matching a
+ * stored review of another source (same reviewer, text and rating), so an
+ * export doesn't double what was scraped. That fingerprint is only compared
+ * for rows with a text or without an external_id: rating-only reviews by
+ * anonymous reviewers ("A Google User", 5★, no comment) share one but are
+ * separate reviews when the export gives them their own ids. Rows already
+ * imported under the same source upsert on their key and count as unchanged
+ * or updated.
+ */
+export async function importReviews(
+  competitorId: string,
+  content: unknown,
+  format: ImportFormat,
+  options: ImportOptions
+): Promise<ImportReport> {
+  const records = readRecords(content, format);
+  const { reviews, errors } = mapRecords(records, options.mapping, options.dateOrder);
+
+  const storedFingerprints = await loadStoredFingerprints(competitorId);
+  const seenKeys = new Set<string>();
+  const unique: ReviewInput[] = [];
+  let duplicates = 0;
+
+  for (const { row, review } of reviews) {
+    const key = reviewKey(review);
+    const fingerprint =
+      !review.external_id || review.review_text?.trim()
+        ? reviewKey({ ...review, external_id: null })
+        : null;
+    const storedSource = fingerprint ? storedFingerprints.get(fingerprint) : undefined;
+
+    if (seenKeys.has(key) || (fingerprint && seenKeys.has(fingerprint))) {
+      duplicates++;
+      errors.push({ row, field: null, value: null, error: "Duplicate of an earlier row in the file; skipped." });
+      continue;
+    }
+    seenKeys.add(key);
+    if (fingerprint) seenKeys.add(fingerprint);
+
+    if (storedSource && storedSource !== options.source) {
+      duplicates++;
+      errors.push({
+        row,
+        field: null,
+        value: null,
+        error: `Already stored from ${storedSource}; skipped.`,
+      });
+      continue;
+    }
+    unique.push(review);
+  }
+
+  const result: IngestResult = options.dryRun
+    ? { inserted: 0, updated: 0, unchanged: 0, edited: 0 }
+    : await upsertReviews(competitorId, options.source, unique);
+
+  errors.sort((a, b) => a.row - b.row);
+  return {
+    ...result,
+    source: options.source,
+    total_rows: records.length,
+    valid_rows: reviews.length,
+    duplicates,
+    dry_run: options.dryRun,
+    error_count: errors.length,
+    errors: errors.slice(0, MAX_REPORTED_ERRORS),
+  };
+}
@@ -0,0 +1,166 @@
+import { pool } from "./db";
+import { enqueueJob } from "./jobs";
+import { DEFAULT_SCRAPE_LIMIT, maxReviewsForPlan } from "./plans";
+import { nextRunTimes, type Schedule } from "./schedules";
+import { DEFAULT_SCRAPE_LANGUAGE } from "./scrapers/locale";
+import { loadCompetitorReviewUrls } from "./scrapers/registry";
+
+const TICK_INTERVAL_MS = Number(process.env.SCHEDULER_INTERVAL_MS) || 60_000;
+// Gap between the jobs of a business-wide schedule, one per competitor
+const COMPETITOR_STAGGER_MS = Number(process.env.SCHEDULE_STAGGER_MS) || 2 * 60_000;
+const DUE_BATCH_SIZE = 50;
+
+type DueSchedule = Schedule & { plan: string | null };
+
+/**
+ * Move the schedule to its next run. Only one process wins: the update
+ * matches only while next_run_at is still the value this one read.
+ */
+async function claimSchedule(schedule: DueSchedule): Promise<boolean> {
+  const timing = { ...schedule, timezone: schedule.effective_timezone };
+  const next = nextRunTimes(timing, schedule.id, new Date())[0] ?? null;
+
+  const { rowCount } = await pool.query(
+    `
+    UPDATE public.schedules
+    SET next_run_at = $2, last_run_at = now()
+    WHERE id = $1 AND enabled AND next_run_at = $3
+    `,
+    [schedule.id, next, schedule.next_run_at]
+  );
+  return rowCount === 1;
+}
+
+/**
+ * The competitors a schedule runs for. A business-wide scrape includes the
+ * business's own listing, so comparisons stay current; a business-wide report
+ * covers the real competitors only.
+ */
+async function scheduleCompetitorIds(schedule: Schedule): Promise<string[]> {
+  if (schedule.competitor_id) return [schedule.competitor_id];
+  const { rows } = await pool.query<{ id: string }>(
+    `
+    SELECT id
+    FROM public.competitors
+    WHERE business_id = $1 AND ($2::boolean OR NOT is_self)
+    ORDER BY created_at
+    `,
+    [schedule.business_id, schedule.kind === "scrape"]
+  );
+  return rows.map((r) => r.id);
+}
+
+async function enqueueScheduleJobs(schedule: DueSchedule): Promise<string[]> {
+  const jobIds: string[] = [];
+  let slot = 0;
+
+  for (const competitorId of await scheduleCompetitorIds(schedule)) {
+    const runAt = new Date(Date.now() + slot * COMPETITOR_STAGGER_MS);
+
+    if (schedule.kind === "scrape") {
+      if ((await loadCompetitorReviewUrls(competitorId)).length === 0) continue;
+      const job = await enqueueJob(
+        "scrape_competitor",
+        {
+          competitor_id: competitorId,
+          mode: schedule.options.mode ?? "incremental",
+          limit: Math.min(
+            schedule.options.limit ?? DEFAULT_SCRAPE_LIMIT,
+            maxReviewsForPlan(schedule.plan)
+          ),
+          language: schedule.options.language ?? DEFAULT_SCRAPE_LANGUAGE,
+          schedule_id: schedule.id,
+        },
+        undefined,
+        runAt
+      );
+      jobIds.push(job.id);
+    } else {
+      const job = await enqueueJob(
+        "generate_report",
+        {
+          business_id: schedule.business_id,
+          competitor_id: competitorId,
+          schedule_id: schedule.id,
+        },
+        undefined,
+        runAt
+      );
+      jobIds.push(job.id);
+    }
+    slot++;
+  }
+
+  await pool.query(`UPDATE public.schedules SET last_job_ids = $2 WHERE id = $1`, [
+    schedule.id,
+    jobIds,
+  ]);
+  return jobIds;
+}
+
+/**
+ * Enqueue the jobs of every due schedule. A schedule whose runs were missed
+ * while no process was up runs once, then continues at its next regular time.
+ */
+export async function runDueSchedules(): Promise<number> {
+  const { rows } = await pool.query<DueSchedule>(
+    `
+    SELECT s.id, s.business_id, s.competitor_id, s.kind, s.frequency, s.day_of_week,
+           s.time_of_day, s.timezone, COALESCE(s.timezone, b.timezone) AS effective_timezone,
+           s.jitter_minutes, s.options, s.enabled, s.next_run_at, s.last_run_at,
+           s.last_job_ids, s.created_at, b.plan
+    FROM public.schedules s
+    JOIN public.businesses b ON b.id = s.business_id
+    WHERE s.enabled AND s.next_run_at <= now()
+    ORDER BY s.next_run_at
+    LIMIT $1
+    `,
+    [DUE_BATCH_SIZE]
+  );
+
+  let started = 0;
+  for (const schedule of rows) {
+    try {
+      if (!(await claimSchedule(schedule))) continue;
+      const jobIds = await enqueueScheduleJobs(schedule);
+      console.log(`Schedule ${schedule.id} (${schedule.kind}) queued ${jobIds.length} jobs`);
+      started++;
+    } catch (error) {
+      console.error(`✗ Error running schedule ${schedule.id}:`, error);
+    }
+  }
+  return started;
+}
+
+let tickTimer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+async function tick() {
+  if (ticking) return;
+  ticking = true;
+  try {
+    await runDueSchedules();
+  } catch (error) {
+    console.error("✗ Error checking schedules:", error);
+  } finally {
+    ticking = false;
+  }
+}
+
+/**
+ * Check for due schedules once a minute. Runs next to the job worker; several
+ * instances may run it, claimSchedule keeps a run from being queued twice.
+ */
+export function startScheduler() {
+  if (tickTimer) return;
+  console.log(`Scheduler started (every ${TICK_INTERVAL_MS / 1000}s)`);
+  tickTimer = setInterval(tick, TICK_INTERVAL_MS);
+  void tick();
+}
+
+export function stopScheduler() {
+  if (tickTimer) {
+    clearInterval(tickTimer);
+    tickTimer = null;
+  }
+}
@@ -0,0 +1,445 @@
+import crypto from "crypto";
+import { pool } from "./db";
+import { SCRAPE_LANGUAGES, isScrapeLanguage } from "./scrapers/locale";
+import { SCRAPE_MODES, type ScrapeMode } from "./scrapers/types";
+
+/**
+ * Recurring scrapes and reports ("daily scrape", "report every Monday at
+ * 07:00"), stored in public.schedules and run by scheduler.ts. Times are wall
+ * clock times in the schedule's timezone, so 07:00 stays 07:00 across DST.
+ */
+
+export type ScheduleKind = "scrape" | "report";
+export type ScheduleFrequency = "daily" | "weekly";
+
+export const SCHEDULE_KINDS: ScheduleKind[] = ["scrape", "report"];
+export const SCHEDULE_FREQUENCIES: ScheduleFrequency[] = ["daily", "weekly"];
+
+// Scrape settings of a scrape schedule; the limit is still capped by the plan
+export type ScheduleOptions = {
+  mode?: ScrapeMode;
+  limit?: number;
+  language?: string;
+};
+
+export type Schedule = {
+  id: string;
+  business_id: string;
+  competitor_id: string | null; // null: every competitor of the business
+  kind: ScheduleKind;
+  frequency: ScheduleFrequency;
+  day_of_week: number | null; // ISO, 1 = Monday ... 7 = Sunday; weekly only
+  time_of_day: string; // "HH:MM"
+  timezone: string | null; // null: the business's timezone
+  effective_timezone: string;
+  jitter_minutes: number;
+  options: ScheduleOptions;
+  enabled: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_job_ids: string[];
+  created_at: string;
+};
+
+// The fields that decide when a schedule runs
+export type ScheduleTiming = Pick<
+  Schedule,
+  "frequency" | "day_of_week" | "time_of_day" | "jitter_minutes"
+> & { timezone: string };
+
+export type ScheduleInput = {
+  competitor_id: string | null;
+  kind: ScheduleKind;
+  frequency: ScheduleFrequency;
+  day_of_week: number | null;
+  time_of_day: string;
+  timezone: string | null;
+  jitter_minutes: number;
+  options: ScheduleOptions;
+  enabled: boolean;
+};
+
+export class ScheduleValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScheduleValidationError";
+  }
+}
+
+const MAX_JITTER_MINUTES = 120;
+
+const DEFAULT_INPUT: Omit<ScheduleInput, "kind" | "frequency" | "time_of_day"> = {
+  competitor_id: null,
+  day_of_week: null,
+  timezone: null,
+  jitter_minutes: 15,
+  options: {},
+  enabled: true,
+};
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Validate a request body into a ScheduleInput. With `existing`, fields left
+ * out of the body keep their current value (PATCH).
+ */
+export function parseScheduleInput(
+  body: Record<string, unknown>,
+  existing: ScheduleInput | null = null
+): ScheduleInput {
+  const base: Partial<Record<keyof ScheduleInput, unknown>> = existing ?? DEFAULT_INPUT;
+  const value = (key: keyof ScheduleInput): unknown => (key in body ? body[key] : base[key]);
+
+  // Integers arrive as numbers in JSON bodies, but accept "3" as well
+  const integer = (raw: unknown): number | null => {
+    const n = typeof raw === "number" ? raw : typeof raw === "string" && raw.trim() !== "" ? Number(raw) : NaN;
+    return Number.isInteger(n) ? n : null;
+  };
+
+  const kind = SCHEDULE_KINDS.find((k) => k === value("kind"));
+  if (!kind) {
+    throw new ScheduleValidationError(`kind must be one of: ${SCHEDULE_KINDS.join(", ")}`);
+  }
+
+  const frequency = SCHEDULE_FREQUENCIES.find((f) => f === value("frequency"));
+  if (!frequency) {
+    throw new ScheduleValidationError(
+      `frequency must be one of: ${SCHEDULE_FREQUENCIES.join(", ")}`
+    );
+  }
+
+  // Switching a weekly schedule to daily drops its day
+  let dayOfWeek: number | null = null;
+  if (frequency === "weekly") {
+    dayOfWeek = integer(value("day_of_week"));
+    if (dayOfWeek === null || dayOfWeek < 1 || dayOfWeek > 7) {
+      throw new ScheduleValidationError("day_of_week must be 1 (Monday) to 7 (Sunday) for weekly schedules");
+    }
+  }
+
+  const timeOfDay = value("time_of_day");
+  const timeMatch = typeof timeOfDay === "string" ? timeOfDay.match(/^(\d{1,2}):(\d{2})$/) : null;
+  if (!timeMatch || Number(timeMatch[1]) > 23 || Number(timeMatch[2]) > 59) {
+    throw new ScheduleValidationError('time_of_day must be "HH:MM" (24h)');
+  }
+
+  const timezone = value("timezone") ?? null;
+  if (timezone !== null && (typeof timezone !== "string" || !isValidTimezone(timezone))) {
+    throw new ScheduleValidationError("timezone must be an IANA timezone such as Europe/Brussels");
+  }
+
+  const jitter = integer(value("jitter_minutes"));
+  if (jitter === null || jitter < 0 || jitter > MAX_JITTER_MINUTES) {
+    throw new ScheduleValidationError(`jitter_minutes must be an integer from 0 to ${MAX_JITTER_MINUTES}`);
+  }
+
+  const optionsValue = value("options") ?? {};
+  if (typeof optionsValue !== "object" || Array.isArray(optionsValue)) {
+    throw new ScheduleValidationError("options must be an object");
+  }
+  const rawOptions = optionsValue as Record<string, unknown>;
+  const options: ScheduleOptions = {};
+  if (kind === "scrape") {
+    if (rawOptions.mode !== undefined) {
+      const mode = SCRAPE_MODES.find((m) => m === rawOptions.mode);
+      if (!mode) {
+        throw new ScheduleValidationError(`options.mode must be one of: ${SCRAPE_MODES.join(", ")}`);
+      }
+      options.mode = mode;
+    }
+    if (rawOptions.limit !== undefined) {
+      const limit = integer(rawOptions.limit);
+      if (limit === null || limit < 1) {
+        throw new ScheduleValidationError("options.limit must be a positive integer");
+      }
+      options.limit = limit;
+    }
+    if (rawOptions.language !== undefined) {
+      if (!isScrapeLanguage(rawOptions.language)) {
+        throw new ScheduleValidationError(
+          `options.language must be one of: ${SCRAPE_LANGUAGES.join(", ")}`
+        );
+      }
+      options.language = rawOptions.language;
+    }
+  }
+
+  const competitorId = value("competitor_id") ?? null;
+  if (competitorId !== null && typeof competitorId !== "string") {
+    throw new ScheduleValidationError("competitor_id must be a string");
+  }
+
+  const enabled = value("enabled");
+  if (typeof enabled !== "boolean") {
+    throw new ScheduleValidationError("enabled must be true or false");
+  }
+
+  return {
+    competitor_id: competitorId || null,
+    kind,
+    frequency,
+    day_of_week: dayOfWeek,
+    time_of_day: `${timeMatch[1]!.padStart(2, "0")}:${timeMatch[2]}`,
+    timezone,
+    jitter_minutes: jitter,
+    options,
+    enabled,
+  };
+}
+
+// ===== Time zones =====
+
+type ZonedParts = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+
+  return {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute"),
+    second: part("second"),
+  };
+}
+
+// Offset of the zone from UTC at `date`, in ms (positive east of Greenwich)
+function zoneOffsetMs(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a wall clock time happens in a zone. A time skipped by a DST
+ * jump resolves to just after it; a repeated one to its first occurrence.
+ */
+function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const firstGuess = wallClock - zoneOffsetMs(new Date(wallClock), timeZone);
+  const offset = zoneOffsetMs(new Date(firstGuess), timeZone);
+  return new Date(wallClock - offset);
+}
+
+/**
+ * Stable offset in seconds within the jitter window, derived from the key
+ * (the schedule id), so a schedule always runs at the same minute and
+ * schedules set for the same time are spread out.
+ */
+export function jitterSeconds(key: string | null, jitterMinutes: number): number {
+  if (!key || jitterMinutes <= 0) return 0;
+  const hash = crypto.createHash("sha1").update(key).digest();
+  return hash.readUInt32BE(0) % (jitterMinutes * 60);
+}
+
+/**
+ * Next `count` run times strictly after `after`, jitter included.
+ */
+export function nextRunTimes(
+  timing: ScheduleTiming,
+  jitterKey: string | null,
+  after: Date = new Date(),
+  count = 1
+): Date[] {
+  const [hour, minute] = timing.time_of_day.split(":").map(Number) as [number, number];
+  const jitterMs = jitterSeconds(jitterKey, timing.jitter_minutes) * 1000;
+  const today = zonedParts(after, timing.timezone);
+
+  const runs: Date[] = [];
+  // Walk the calendar days in the zone; weekly needs at most a week per run
+  for (let offset = 0; runs.length < count && offset <= count * 7 + 7; offset++) {
+    const day = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    const isoWeekday = day.getUTCDay() === 0 ? 7 : day.getUTCDay();
+    if (timing.frequency === "weekly" && isoWeekday !== timing.day_of_week) continue;
+
+    const run = new Date(
+      zonedTimeToUtc(
+        day.getUTCFullYear(),
+        day.getUTCMonth() + 1,
+        day.getUTCDate(),
+        hour,
+        minute,
+        timing.timezone
+      ).getTime() + jitterMs
+    );
+    if (run > after) runs.push(run);
+  }
+  return runs;
+}
+
+// ===== Storage =====
+
+const SCHEDULE_COLUMNS = `
+  s.id, s.business_id, s.competitor_id, s.kind, s.frequency, s.day_of_week, s.time_of_day,
+  s.timezone, COALESCE(s.timezone, b.timezone) AS effective_timezone, s.jitter_minutes,
+  s.options, s.enabled, s.next_run_at, s.last_run_at, s.last_job_ids, s.created_at
+`;
+
+export async function listSchedules(businessId: string): Promise<Schedule[]> {
+  const { rows } = await pool.query<Schedule>(
+    `
+    SELECT ${SCHEDULE_COLUMNS}
+    FROM public.schedules s
+    JOIN public.businesses b ON b.id = s.business_id
+    WHERE s.business_id = $1
+    ORDER BY s.created_at
+    `,
+    [businessId]
+  );
+  return rows;
+}
+
+export async function getSchedule(scheduleId: string): Promise<Schedule | null> {
+  const { rows } = await pool.query<Schedule>(
+    `
+    SELECT ${SCHEDULE_COLUMNS}
+    FROM public.schedules s
+    JOIN public.businesses b ON b.id = s.business_id
+    WHERE s.id = $1
+    `,
+    [scheduleId]
+  );
+  return rows[0] ?? null;
+}
+
+export async function getBusinessTimezone(businessId: string): Promise<string | null> {
+  const { rows } = await pool.query<{ timezone: string }>(
+    `SELECT timezone FROM public.businesses WHERE id = $1`,
+    [businessId]
+  );
+  return rows[0]?.timezone ?? null;
+}
+
+function nextRunFor(id: string, input: ScheduleInput, businessTimezone: string): Date | null {
+  if (!input.enabled) return null;
+  const timing = { ...input, timezone: input.timezone ?? businessTimezone };
+  return nextRunTimes(timing, id, new Date())[0] ?? null;
+}
+
+export async function createSchedule(
+  businessId: string,
+  businessTimezone: string,
+  input: ScheduleInput
+): Promise<Schedule> {
+  // The id is picked here because the jitter offset depends on it
+  const id = crypto.randomUUID();
+  await pool.query(
+    `
+    INSERT INTO public.schedules (
+      id, business_id, competitor_id, kind, frequency, day_of_week, time_of_day,
+      timezone, jitter_minutes, options, enabled, next_run_at
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+    `,
+    [
+      id,
+      businessId,
+      input.competitor_id,
+      input.kind,
+      input.frequency,
+      input.day_of_week,
+      input.time_of_day,
+      input.timezone,
+      input.jitter_minutes,
+      JSON.stringify(input.options),
+      input.enabled,
+      nextRunFor(id, input, businessTimezone),
+    ]
+  );
+  return (await getSchedule(id))!;
+}
+
+export async function updateSchedule(
+  schedule: Schedule,
+  input: ScheduleInput
+): Promise<Schedule> {
+  const businessTimezone = (await getBusinessTimezone(schedule.business_id)) ?? "UTC";
+  await pool.query(
+    `
+    UPDATE public.schedules
+    SET competitor_id = $2, kind = $3, frequency = $4, day_of_week = $5, time_of_day = $6,
+        timezone = $7, jitter_minutes = $8, options = $9, enabled = $10, next_run_at = $11
+    WHERE id = $1
+    `,
+    [
+      schedule.id,
+      input.competitor_id,
+      input.kind,
+      input.frequency,
+      input.day_of_week,
+      input.time_of_day,
+      input.timezone,
+      input.jitter_minutes,
+      JSON.stringify(input.options),
+      input.enabled,
+      nextRunFor(schedule.id, input, businessTimezone),
+    ]
+  );
+  return (await getSchedule(schedule.id))!;
+}
+
+export async function deleteSchedule(scheduleId: string): Promise<boolean> {
+  const { rowCount } = await pool.query(`DELETE FROM public.schedules WHERE id = $1`, [
+    scheduleId,
+  ]);
+  return (rowCount ?? 0) > 0;
+}
+
+export function scheduleInputOf(schedule: Schedule): ScheduleInput {
+  return {
+    competitor_id: schedule.competitor_id,
+    kind: schedule.kind,
+    frequency: schedule.frequency,
+    day_of_week: schedule.day_of_week,
+    time_of_day: schedule.time_of_day,
+    timezone: schedule.timezone,
+    jitter_minutes: schedule.jitter_minutes,
+    options: schedule.options,
+    enabled: schedule.enabled,
+  };
+}
+
+/**
+ * Recompute next_run_at of the schedules that follow the business's timezone,
+ * after it changed.
+ */
+export async function rescheduleBusiness(businessId: string): Promise<void> {
+  for (const schedule of await listSchedules(businessId)) {
+    if (schedule.timezone === null && schedule.enabled) {
+      await updateSchedule(schedule, scheduleInputOf(schedule));
+    }
+  }
+}
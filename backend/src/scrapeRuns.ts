@@ -0,0 +1,316 @@
+import fs from "fs/promises";
+import path from "path";
+import type { Page } from "playwright";
+import { pool } from "./db";
+import type { ScrapeFailureReason } from "./scrapers/errors";
+import type { ScrapeOptions, ScrapeStopReason } from "./scrapers/types";
+
+export const ARTIFACTS_DIR = path.join(__dirname, "..", "scrape-artifacts");
+
+// Artifacts of older runs are deleted; the run rows themselves are kept
+const ARTIFACT_RUNS_KEPT_PER_COMPETITOR = 20;
+
+export type ScrapeRunStatus = "running" | "succeeded" | "failed";
+
+export type ScrapeRun = {
+  id: string;
+  competitor_id: string;
+  source: string;
+  url: string;
+  mode: string;
+  language: string | null;
+  status: ScrapeRunStatus;
+  started_at: string;
+  finished_at: string | null;
+  error_class: string | null;
+  error_message: string | null;
+  failure_reason: ScrapeFailureReason | null;
+  attempts: number;
+  elements_found: number | null;
+  reviews_parsed: number | null;
+  reviews_scraped: number | null;
+  selector_strategy: string | null;
+  stop_reason: ScrapeStopReason | null;
+  inserted: number | null;
+  updated: number | null;
+  unchanged: number | null;
+  artifacts: string[];
+};
+
+/**
+ * What a run found on the page, filled in as the scrape goes so a failed run
+ * still records how far it got.
+ */
+export type ScrapeRunDiagnostics = {
+  elementsFound: number | null;
+  reviewsParsed: number | null;
+  selectorStrategy: string | null;
+};
+
+/**
+ * Per-run artifact writer handed to the sources. Files go to
+ * scrape-artifacts/<run id>/attempt-<n>-<name>, so a retry keeps the files
+ * of the attempt that failed; failures to write are logged, never thrown,
+ * since diagnostics must not break a scrape.
+ */
+export type RunArtifacts = {
+  screenshot(page: Page, name: string, fullPage?: boolean): Promise<void>;
+  html(name: string, content: string): Promise<void>;
+};
+
+export type ScrapeRunHandle = {
+  id: string;
+  artifacts: RunArtifacts;
+  diagnostics: ScrapeRunDiagnostics;
+  savedArtifacts: string[];
+  // Fetch attempts so far, retries included
+  attempts: number;
+};
+
+const ARTIFACT_NAME_PATTERN = /^[a-z0-9-]+\.(?:png|html)$/;
+
+function runDir(runId: string): string {
+  return path.join(ARTIFACTS_DIR, runId);
+}
+
+function createRunArtifacts(
+  runId: string,
+  saved: string[],
+  attempt: () => number
+): RunArtifacts {
+  const write = async (name: string, save: (filePath: string) => Promise<unknown>) => {
+    const fileName = `attempt-${attempt()}-${name}`;
+    try {
+      await fs.mkdir(runDir(runId), { recursive: true });
+      await save(path.join(runDir(runId), fileName));
+      saved.push(fileName);
+      console.log(`Saved scrape artifact: ${runId}/${fileName}`);
+    } catch (e) {
+      console.log(`Could not save scrape artifact ${fileName}:`, e);
+    }
+  };
+
+  return {
+    screenshot: (page, name, fullPage = false) =>
+      write(`${name}.png`, (filePath) => page.screenshot({ path: filePath, fullPage })),
+    html: (name, content) => write(`${name}.html`, (filePath) => fs.writeFile(filePath, content)),
+  };
+}
+
+export async function startScrapeRun(
+  competitorId: string,
+  source: string,
+  url: string,
+  options: ScrapeOptions
+): Promise<ScrapeRunHandle> {
+  const { rows } = await pool.query<{ id: string }>(
+    `
+    INSERT INTO public.scrape_runs (competitor_id, source, url, mode, language)
+    VALUES ($1, $2, $3, $4, $5)
+    RETURNING id
+    `,
+    [competitorId, source, url, options.mode, options.language]
+  );
+  const id = rows[0]!.id;
+
+  const savedArtifacts: string[] = [];
+  const run: ScrapeRunHandle = {
+    id,
+    artifacts: createRunArtifacts(id, savedArtifacts, () => run.attempts),
+    diagnostics: { elementsFound: null, reviewsParsed: null, selectorStrategy: null },
+    savedArtifacts,
+    attempts: 1,
+  };
+  return run;
+}
+
+export type ScrapeRunTotals = {
+  scraped: number;
+  stop_reason: ScrapeStopReason;
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  language: string | null;
+};
+
+export async function finishScrapeRun(run: ScrapeRunHandle, totals: ScrapeRunTotals) {
+  await pool.query(
+    `
+    UPDATE public.scrape_runs
+    SET status = 'succeeded',
+        finished_at = now(),
+        elements_found = $2,
+        reviews_parsed = $3,
+        selector_strategy = $4,
+        reviews_scraped = $5,
+        stop_reason = $6,
+        inserted = $7,
+        updated = $8,
+        unchanged = $9,
+        language = COALESCE($10, language),
+        artifacts = $11,
+        attempts = $12
+    WHERE id = $1
+    `,
+    [
+      run.id,
+      run.diagnostics.elementsFound,
+      run.diagnostics.reviewsParsed,
+      run.diagnostics.selectorStrategy,
+      totals.scraped,
+      totals.stop_reason,
+      totals.inserted,
+      totals.updated,
+      totals.unchanged,
+      totals.language,
+      run.savedArtifacts,
+      run.attempts,
+    ]
+  );
+  await pruneArtifacts(run.id);
+}
+
+export async function failScrapeRun(
+  run: ScrapeRunHandle,
+  error: unknown,
+  reason: ScrapeFailureReason
+) {
+  const errorClass =
+    error instanceof Error ? error.constructor.name || error.name : typeof error;
+  const message = error instanceof Error ? error.message : String(error);
+
+  await pool.query(
+    `
+    UPDATE public.scrape_runs
+    SET status = 'failed',
+        finished_at = now(),
+        error_class = $2,
+        error_message = $3,
+        elements_found = $4,
+        reviews_parsed = $5,
+        selector_strategy = $6,
+        artifacts = $7,
+        failure_reason = $8,
+        attempts = $9
+    WHERE id = $1
+    `,
+    [
+      run.id,
+      errorClass,
+      message,
+      run.diagnostics.elementsFound,
+      run.diagnostics.reviewsParsed,
+      run.diagnostics.selectorStrategy,
+      run.savedArtifacts,
+      reason,
+      run.attempts,
+    ]
+  );
+  await pruneArtifacts(run.id);
+}
+
+// Keep the artifacts of the latest runs of the competitor, delete the rest
+async function pruneArtifacts(runId: string) {
+  try {
+    const { rows } = await pool.query<{ id: string }>(
+      `
+      SELECT r.id
+      FROM public.scrape_runs r
+      JOIN public.scrape_runs current ON current.id = $1
+      WHERE r.competitor_id = current.competitor_id
+        AND cardinality(r.artifacts) > 0
+      ORDER BY r.started_at DESC
+      OFFSET $2
+      `,
+      [runId, ARTIFACT_RUNS_KEPT_PER_COMPETITOR]
+    );
+    if (rows.length === 0) return;
+
+    for (const row of rows) {
+      await fs.rm(runDir(row.id), { recursive: true, force: true });
+    }
+    await pool.query(
+      `UPDATE public.scrape_runs SET artifacts = '{}' WHERE id = ANY($1::uuid[])`,
+      [rows.map((row) => row.id)]
+    );
+  } catch (e) {
+    console.error("✗ Error pruning scrape artifacts:", e);
+  }
+}
+
+const RUN_COLUMNS = `
+  id, competitor_id, source, url, mode, language, status, started_at, finished_at,
+  error_class, error_message, failure_reason, attempts, elements_found, reviews_parsed, reviews_scraped,
+  selector_strategy, stop_reason, inserted, updated, unchanged, artifacts
+`;
+
+export async function listScrapeRuns(competitorId: string, limit = 20): Promise<ScrapeRun[]> {
+  const { rows } = await pool.query<ScrapeRun>(
+    `
+    SELECT ${RUN_COLUMNS}
+    FROM public.scrape_runs
+    WHERE competitor_id = $1
+    ORDER BY started_at DESC
+    LIMIT $2
+    `,
+    [competitorId, limit]
+  );
+  return rows;
+}
+
+export async function getScrapeRun(runId: string): Promise<ScrapeRun | null> {
+  const { rows } = await pool.query<ScrapeRun>(
+    `SELECT ${RUN_COLUMNS} FROM public.scrape_runs WHERE id = $1`,
+    [runId]
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Path of a saved artifact, or null for names we never write (keeps the
+ * download route from reading outside the run's directory).
+ */
+export function scrapeArtifactPath(runId: string, name: string): string | null {
+  if (!ARTIFACT_NAME_PATTERN.test(name)) return null;
+  return path.join(runDir(runId), name);
+}
+
+const FAILURE_HINTS: Record<ScrapeFailureReason, string | null> = {
+  timeout: "The page was too slow to load; it is retried automatically, try again later if it keeps failing.",
+  network: "The site could not be reached.",
+  browser_crashed: "The browser crashed during the scrape.",
+  consent_wall: "The cookie consent page could not be accepted: check the screenshot for its buttons.",
+  blocked: "The site showed a captcha or refused the request: wait before scraping it again.",
+  no_reviews_tab: "The reviews panel could not be opened: the page layout has probably changed.",
+  parse_failed: "Review elements were found but none could be parsed: compare the HTML dump with the parser fixtures.",
+  unsupported_url: "No review source supports this URL.",
+  unknown: null,
+};
+
+/**
+ * Plain-language reading of a run's numbers, most useful for runs that
+ * stored nothing.
+ */
+export function diagnoseScrapeRun(run: ScrapeRun): string {
+  if (run.status === "running") {
+    return "Run has not finished yet.";
+  }
+  if (run.status === "failed") {
+    const hint = run.failure_reason ? FAILURE_HINTS[run.failure_reason] : null;
+    const tries = run.attempts > 1 ? ` after ${run.attempts} attempts` : "";
+    return `Run failed${tries} (${run.failure_reason ?? run.error_class ?? "Error"}): ${run.error_message ?? "no message"}.${hint ? ` ${hint}` : ""}`;
+  }
+  if (!run.elements_found) {
+    return "No review elements were found on the page: check the screenshot for a consent wall, a wrong URL or a page without reviews.";
+  }
+  if (!run.reviews_parsed) {
+    return "Review elements were found but none could be parsed: the page layout has probably changed, compare the HTML dump with the parser fixtures.";
+  }
+  if (!run.reviews_scraped && run.stop_reason === "known_review") {
+    return "The newest review was already stored: nothing new since the previous scrape.";
+  }
+  if (!run.reviews_scraped) {
+    return "Reviews were parsed but all of them were duplicates or beyond the limit.";
+  }
+  return `Scraped ${run.reviews_scraped} reviews (${run.inserted ?? 0} new, ${run.updated ?? 0} updated).`;
+}
@@ -0,0 +1,95 @@
+import { errors, type Page } from "playwright";
+
+/**
+ * Why a scrape failed, in a form the API and the dashboard can switch on.
+ * Retryable reasons are the ones a later attempt can plausibly get past; a
+ * block is not, retrying it right away only makes it stick.
+ */
+export type ScrapeFailureReason =
+  | "timeout" // page or selector did not load in time
+  | "network" // DNS, connection reset, ERR_* navigation errors
+  | "browser_crashed" // the shared browser or the page went away mid-scrape
+  | "consent_wall" // still stuck on a cookie / consent page after clicking
+  | "blocked" // captcha, "unusual traffic" or an HTTP 403/429
+  | "no_reviews_tab" // the place has reviews but the reviews panel could not be opened
+  | "parse_failed" // review elements were found but none could be parsed
+  | "unsupported_url" // no review source handles the URL
+  | "unknown";
+
+const RETRYABLE_REASONS = new Set<ScrapeFailureReason>([
+  "timeout",
+  "network",
+  "browser_crashed",
+]);
+
+export class ScrapeError extends Error {
+  constructor(
+    readonly reason: ScrapeFailureReason,
+    message: string
+  ) {
+    super(message);
+    this.name = "ScrapeError";
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_REASONS.has(this.reason);
+  }
+}
+
+const NETWORK_ERROR_PATTERN = /net::ERR_|ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|socket hang up/i;
+const BROWSER_GONE_PATTERN = /Target (?:page, context or browser )?(?:has been )?closed|Browser has been closed|browser has disconnected|Page crashed/i;
+
+/**
+ * Turn whatever a scrape threw into a ScrapeError, keeping the original
+ * message. ScrapeErrors raised by the sources pass through unchanged.
+ */
+export function classifyScrapeError(error: unknown): ScrapeError {
+  if (error instanceof ScrapeError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  let reason: ScrapeFailureReason = "unknown";
+  if (error instanceof errors.TimeoutError) {
+    reason = "timeout";
+  } else if (NETWORK_ERROR_PATTERN.test(message)) {
+    reason = "network";
+  } else if (BROWSER_GONE_PATTERN.test(message)) {
+    reason = "browser_crashed";
+  }
+
+  const classified = new ScrapeError(reason, message);
+  if (error instanceof Error && error.stack) classified.stack = error.stack;
+  return classified;
+}
+
+// Google's "unusual traffic" interstitial lives under /sorry/
+const BLOCK_URL_PATTERN = /\/sorry\/|\/captcha|challenge/i;
+const BLOCK_SELECTORS = [
+  'iframe[src*="recaptcha"]',
+  'iframe[src*="hcaptcha"]',
+  'iframe[src*="captcha-delivery"]', // DataDome (TripAdvisor, Yelp)
+  "#captcha-form",
+  "#px-captcha", // PerimeterX
+];
+
+/**
+ * Throw a ScrapeError when the page we landed on is a captcha / block page or
+ * an unanswered consent page instead of the one we asked for.
+ */
+export async function assertPageReachable(page: Page, status: number | null = null) {
+  const url = page.url();
+
+  if (status === 403 || status === 429) {
+    throw new ScrapeError("blocked", `The site refused the request (HTTP ${status}).`);
+  }
+  if (BLOCK_URL_PATTERN.test(new URL(url).pathname)) {
+    throw new ScrapeError("blocked", `Redirected to a captcha / unusual traffic page: ${url}`);
+  }
+  for (const selector of BLOCK_SELECTORS) {
+    if (await page.$(selector).catch(() => null)) {
+      throw new ScrapeError("blocked", "The page shows a captcha.");
+    }
+  }
+  if (/^consent\./i.test(new URL(url).hostname)) {
+    throw new ScrapeError("consent_wall", "Still on the consent page after trying to accept it.");
+  }
+}
@@ -1,452 +1,258 @@
-import { chromium } from "playwright";
-import { pool } from "../db";
-
-type ScrapedReview = {
-  rating: number | null;
-  review_text: string | null;
-  review_date: string | null;
-  reviewer_name: string | null;
+import type { ElementHandle, Page } from "playwright";
+import { assertPageReachable, ScrapeError } from "./errors";
+import {
+  parseGoogleMapsPlaceHtml,
+  parseGoogleMapsReviewsHtml,
+} from "./googleMapsParser";
+import {
+  acceptConsent,
+  detectPageLanguage,
+  withLanguageParam,
+  type ScrapeLanguage,
+} from "./locale";
+import { politeGoto } from "./politeness";
+import type {
+  FetchContext,
+  FetchResult,
+  ReviewSource,
+  ScrapeStopReason,
+} from "./types";
+
+const GOOGLE_HOST_PATTERN = /^https?:\/\/(?:www\.|maps\.)?google\.[a-z.]+\//i;
+
+const REVIEW_ITEM_SELECTOR = 'div[aria-label="Google review"], div[data-review-id]';
+
+// Candidates for the scrollable review panel, recorded per run as the strategy
+const SCROLL_CONTAINER_SELECTORS = [
+  'div[aria-label*="Google reviews"]',
+  'div[role="feed"]',
+  'div[jsaction*="scroll"]',
+];
+
+// How many scrolls without new reviews before we assume the feed has ended
+const MAX_STALLED_SCROLLS = 4;
+
+/**
+ * Two captures of the same page: the place header before the reviews tab is
+ * opened, and the review panel after scrolling.
+ */
+export type GoogleMapsCapture = {
+  placeHtml: string;
+  reviewsHtml: string;
 };
 
-export async function scrapeGoogleMapsReviews(
-  competitorId: string,
-  googleMapsUrl: string,
-  maxReviews = 5 // <-- limit to 5 by default
-) {
-  // Run in non-headless mode for debugging
-  // Run in headless mode for production
-  const browser = await chromium.launch({ 
-    headless: true
-  });
-  const page = await browser.newPage();
+// Nested elements repeat data-review-id, so count distinct ids
+async function countLoadedReviews(page: Page): Promise<number> {
+  return page.$$eval(REVIEW_ITEM_SELECTOR, (els) =>
+    new Set(els.map((el, i) => el.getAttribute("data-review-id") ?? `item-${i}`)).size
+  );
+}
+
+/**
+ * Short links (maps.app.goo.gl) and the consent page redirect to a place URL
+ * without our hl= parameter; load that URL again with it.
+ */
+async function forceLanguageAfterRedirect(page: Page, language: ScrapeLanguage) {
+  const current = page.url();
+  if (!GOOGLE_HOST_PATTERN.test(current)) return;
+  if (new URL(current).searchParams.get("hl") === language) return;
+
+  console.log(`Reloading in language "${language}" after redirect`);
+  await politeGoto(page, withLanguageParam(current, language), { waitUntil: "networkidle" });
+  await page.waitForTimeout(2000);
+}
+
+/**
+ * Whether a feed that stopped growing really ended: it is scrolled to the
+ * bottom, nothing is still loading and, when the place shows a review count,
+ * that many reviews are loaded. A slow page fails one of these.
+ */
+async function feedEnded(
+  scrollContainer: ElementHandle<Element>,
+  reviewCount: number,
+  shownCount: number | null
+): Promise<boolean> {
+  if (shownCount !== null && reviewCount < shownCount) return false;
+  return scrollContainer.evaluate(
+    (el) =>
+      el.scrollTop + el.clientHeight >= el.scrollHeight - 10 &&
+      el.querySelector('[role="progressbar"]') === null
+  );
+}
 
+// Returns whether a reviews tab was found and clicked
+async function openReviewsFeed(page: Page): Promise<boolean> {
+  let opened = false;
+
+  // Try to click on "Reviews" button/tab if it exists
   try {
-    console.log("Opening Google Maps URL:", googleMapsUrl);
-    await page.goto(googleMapsUrl, { waitUntil: "networkidle" });
-
-    // Wait for page to load
-    await page.waitForTimeout(3000);
-    
-    // Handle cookie consent dialog
-    try {
-      console.log("Checking for cookie consent dialog...");
-      
-      // Wait a bit for cookie dialog to appear
+    const reviewsButton = await page.$(
+      'button:has-text("Reviews"), button[role="tab"]:has-text("Avis"), button[role="tab"]:has-text("Rezensionen"), button[data-value="Reviews"], button[aria-label*="Reviews"]'
+    );
+    if (reviewsButton) {
+      console.log("Clicking on Reviews button...");
+      await reviewsButton.click();
       await page.waitForTimeout(2000);
-      
-      let cookieAccepted = false;
-      
-      // Method 1: Try using Playwright's :has-text() selector (most reliable)
-      try {
-        const textSelectors = [
-          'button:has-text("Accept all")',
-          'button:has-text("I agree")',
-          'button:has-text("Accept")',
-          'button:has-text("Agree")',
-          'button:has-text("OK")',
-          'button:has-text("Got it")',
-        ];
-        
-        for (const selector of textSelectors) {
-          try {
-            const button = page.locator(selector).first();
-            const count = await button.count();
-            if (count > 0) {
-              const isVisible = await button.isVisible();
-              if (isVisible) {
-                const text = await button.innerText();
-                console.log(`Found cookie consent button with text: ${text}`);
-                await button.click();
-                await page.waitForTimeout(2000);
-                cookieAccepted = true;
-                console.log("Cookie consent accepted!");
-                break;
-              }
-            }
-          } catch (e) {
-            continue;
-          }
-        }
-      } catch (e) {
-        console.log("Method 1 failed, trying alternatives...");
-      }
-      
-      // Method 2: Try common selectors
-      if (!cookieAccepted) {
-        const cookieSelectors = [
-          'button[id*="accept"]',
-          'button[aria-label*="Accept"]',
-          'button[aria-label*="accept"]',
-          'button[data-value="accept"]',
-          '[data-value="accept"]',
-          'button[jsname="b3VHJd"]', // Common Google cookie button jsname
-          'button[jsname*="accept"]',
-        ];
-        
-        for (const selector of cookieSelectors) {
-          try {
-            const cookieButton = await page.$(selector);
-            if (cookieButton) {
-              const isVisible = await cookieButton.isVisible();
-              if (isVisible) {
-                console.log(`Found cookie consent button with selector: ${selector}`);
-                await cookieButton.click();
-                await page.waitForTimeout(2000);
-                cookieAccepted = true;
-                console.log("Cookie consent accepted!");
-                break;
-              }
-            }
-          } catch (e) {
-            continue;
-          }
-        }
-      }
-      
-      // Method 3: Find buttons in dialogs by text content
-      if (!cookieAccepted) {
-        try {
-          const dialogButtons = await page.$$('div[role="dialog"] button, div[class*="dialog"] button, div[class*="cookie"] button');
-          for (const button of dialogButtons) {
-            try {
-              const text = await button.innerText();
-              if (text && (text.toLowerCase().includes('accept') || text.toLowerCase().includes('agree') || text.toLowerCase().includes('ok'))) {
-                const isVisible = await button.isVisible();
-                if (isVisible) {
-                  console.log(`Found cookie consent button with text: ${text}`);
-                  await button.click();
-                  await page.waitForTimeout(2000);
-                  cookieAccepted = true;
-                  console.log("Cookie consent accepted!");
-                  break;
-                }
-              }
-            } catch (e) {
-              continue;
-            }
-          }
-        } catch (e) {
-          // Continue
-        }
-      }
-      
-      if (!cookieAccepted) {
-        console.log("No cookie consent dialog found or could not click it - continuing anyway");
-      }
-    } catch (e) {
-      console.log("Error handling cookie consent:", e);
-    }
-    
-    // Take a screenshot for debugging
-    try {
-      await page.screenshot({ path: 'debug-initial.png', fullPage: false });
-      console.log("Screenshot saved: debug-initial.png");
-    } catch (e) {
-      console.log("Could not take screenshot:", e);
+      opened = true;
     }
+  } catch (e) {
+    console.log("Could not find/click Reviews button, continuing...");
+  }
 
-    // Try to click on "Reviews" button/tab if it exists
-    try {
-      const reviewsButton = await page.$('button:has-text("Reviews"), button[data-value="Reviews"], button[aria-label*="Reviews"]');
-      if (reviewsButton) {
-        console.log("Clicking on Reviews button...");
-        await reviewsButton.click();
-        await page.waitForTimeout(2000);
-      }
-    } catch (e) {
-      console.log("Could not find/click Reviews button, continuing...");
-    }
+  // Sort by newest so we can stop at the first review we already have
+  try {
+    const sortButton = await page.$(
+      'button[aria-label*="Sort"], button[aria-label*="Sorteren"], button[aria-label*="Trier"], button[aria-label*="Sortieren"], button[data-value="Sort"], button[data-value="Sorteren"]'
+    );
+    if (sortButton) {
+      await sortButton.click();
+      await page.waitForTimeout(1000);
 
-    // Try multiple selectors for review elements (Google Maps structure varies)
-    let reviewItems = await page.$$('div[aria-label="Google review"]');
-    
-    if (reviewItems.length === 0) {
-      // Try alternative selectors
-      reviewItems = await page.$$('div[data-review-id]');
-    }
-    
-    if (reviewItems.length === 0) {
-      // Try finding review container and scrolling
-      const scrollContainerSelector = 'div[aria-label*="Google reviews"], div[role="feed"], div[jsaction*="scroll"]';
-      const scrollContainer = await page.$(scrollContainerSelector);
-
-      if (scrollContainer) {
-        console.log("Scrolling to load reviews...");
-        for (let i = 0; i < 10; i++) {
-          await scrollContainer.evaluate((el) => {
-            el.scrollBy(0, 1000);
-          });
-          await page.waitForTimeout(1500);
-          
-          // Check if reviews appeared
-          reviewItems = await page.$$('div[aria-label="Google review"], div[data-review-id]');
-          if (reviewItems.length > 0) break;
-        }
+      const newestOption = page
+        .locator(
+          'div[role="menuitemradio"]:has-text("Newest"), div[role="menuitemradio"]:has-text("Nieuwste"), div[role="menuitemradio"]:has-text("Plus récents"), div[role="menuitemradio"]:has-text("Neueste")'
+        )
+        .first();
+      if ((await newestOption.count()) > 0) {
+        await newestOption.click();
+      } else {
+        // The menu is ordered "Most relevant, Newest, Highest, Lowest"
+        await page.locator('div[role="menuitemradio"]').nth(1).click();
       }
+      await page.waitForTimeout(2000);
+      console.log("Sorted reviews by newest");
+    } else {
+      console.log("No sort button found, keeping default review order");
     }
+  } catch (e) {
+    console.log("Could not sort reviews by newest, continuing...");
+  }
+  return opened;
+}
 
-    console.log(`Found ${reviewItems.length} raw review elements`);
-    
-    // Take another screenshot after scrolling
-    if (reviewItems.length === 0) {
-      try {
-        await page.screenshot({ path: 'debug-no-reviews.png', fullPage: true });
-        console.log("Screenshot saved: debug-no-reviews.png (no reviews found)");
-      } catch (e) {
-        console.log("Could not take screenshot:", e);
-      }
-    }
+async function fetchGoogleMapsReviews(
+  page: Page,
+  googleMapsUrl: string,
+  ctx: FetchContext
+): Promise<FetchResult<GoogleMapsCapture>> {
+  const { limit, language } = ctx.options;
 
-    const scraped: ScrapedReview[] = [];
-
-    for (let i = 0; i < reviewItems.length && i < maxReviews; i++) {
-      try {
-        const item = reviewItems[i];
-        if (!item) {
-          console.log(`Review ${i + 1}: item is null, skipping...`);
-          continue;
-        }
-        
-        // Get all text content from the review item - this is the most reliable method
-        let allText = "";
-        try {
-          allText = await item.innerText();
-          console.log(`\n--- Review ${i + 1} ---`);
-          console.log(`All text: ${allText.substring(0, Math.min(300, allText.length))}...`);
-        } catch (e) {
-          console.log(`Error getting text for review ${i + 1}:`, e);
-          continue; // Skip this review if we can't get text
-        }
-        
-        if (!allText || allText.trim().length === 0) {
-          console.log(`Review ${i + 1} has no text, skipping...`);
-          continue;
-        }
-        
-        // Parse the text intelligently - Google Maps reviews typically have this structure:
-        // Line 1: Reviewer name
-        // Line 2: Rating (X stars or X out of 5)
-        // Line 3+: Review text
-        // Last line: Date (X months ago, etc.)
-        const lines = allText.split('\n').map((l: string) => l.trim()).filter((l: string) => l.length > 0);
-        
-        if (lines.length === 0) {
-          console.log(`Review ${i + 1}: no lines after parsing, skipping...`);
-          continue;
-        }
-        
-        // Extract rating - try from aria-label first, then from text
-        let rating: number | null = null;
-      
-        // Method 1: Try aria-label from rating element
-        try {
-          const ratingEl = await item.$('span[aria-label*="star"], [role="img"][aria-label*="star"], img[aria-label*="star"]');
-          if (ratingEl) {
-            const ratingText = await ratingEl.getAttribute("aria-label");
-            if (ratingText) {
-              const match = ratingText.match(/Rated (\d+(?:\.\d+)?) out of 5|(\d+(?:\.\d+)?)\s*star/i);
-              if (match) {
-                rating = parseFloat(match[1] || match[2] || "0");
-              }
-            }
-          }
-        } catch (e) {
-          // Continue to text-based extraction
-        }
-        
-        // Method 2: Extract from text content
-        if (!rating) {
-          const ratingMatch = allText.match(/(\d+(?:\.\d+)?)\s*(?:out of|\/)\s*5|(\d+(?:\.\d+)?)\s*star/i);
-          if (ratingMatch) {
-            const ratingValue = parseFloat(ratingMatch[1] || ratingMatch[2] || "0");
-            if (ratingValue > 0 && ratingValue <= 5) {
-              rating = ratingValue;
-            }
-          }
-        }
-
-        // Extract reviewer name - try from link first, then from text
-        let reviewer_name: string | null = null;
-        
-        // Method 1: Try to find name in contributor link
-        try {
-          const nameEl = await item.$("a[href*='contrib'], button[aria-label*='Profile']");
-          if (nameEl) {
-            reviewer_name = (await nameEl.innerText()).trim();
-          }
-        } catch (e) {
-          // Continue to text-based extraction
-        }
-        
-        // Method 2: Extract from first line of text (usually the name)
-        if (!reviewer_name && lines.length > 0 && lines[0]) {
-          // First line is usually the reviewer name
-          reviewer_name = lines[0];
-          // Clean up - remove common suffixes
-          reviewer_name = reviewer_name.replace(/\s*\d+\s*(?:month|year|week|day)s?\s*ago.*$/i, '').trim();
-        }
-
-        // Extract review text - use text-based parsing (most reliable)
-        let review_text: string | null = null;
-        
-        // Method 1: Try to find review text element
-        try {
-          const reviewTextEl = await item.$("span[jsname='bN97Pc'], span[class*='review-text'], div[class*='review-text']");
-          if (reviewTextEl) {
-            review_text = (await reviewTextEl.innerText()).trim();
-          }
-        } catch (e) {
-          // Continue to text-based extraction
-        }
-        
-        // Method 2: Extract from text lines (skip name, rating, date)
-        if (!review_text && lines.length > 1) {
-          // Skip first line (name), skip lines with rating/date, get the rest
-          const textLines = lines.slice(1).filter((line: string) => {
-            if (!line) return false;
-            // Skip rating lines
-            if (line.match(/\d+\s*(?:out of|\/)\s*5|\d+\s*star/i)) return false;
-            // Skip date lines
-            if (line.match(/\d+\s*(?:month|year|week|day|hour|minute)s?\s*ago/i)) return false;
-            // Skip lines that are just the reviewer name repeated
-            if (reviewer_name && line.trim() === reviewer_name.trim()) return false;
-            // Accept longer lines as review text (even if short, might be valid)
-            return true;
-          });
-          
-          if (textLines.length > 0) {
-            review_text = textLines.join(' ').trim() || null;
-            // If the text is very short, it might still be valid, so keep it
-          }
-        }
-        
-        // Method 3: If still no text, try to get any long text block from the element
-        if (!review_text) {
-          try {
-            // Get all text and remove name, rating, date patterns
-            let cleanedText = allText;
-            if (reviewer_name) {
-              cleanedText = cleanedText.replace(new RegExp(reviewer_name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi'), '');
-            }
-            cleanedText = cleanedText.replace(/\d+\s*(?:out of|\/)\s*5|\d+\s*star/gi, '');
-            cleanedText = cleanedText.replace(/\d+\s*(?:month|year|week|day|hour|minute)s?\s*ago/gi, '');
-            cleanedText = cleanedText.replace(/\n+/g, ' ').trim();
-            
-            // If we have substantial text left, use it
-            if (cleanedText.length > 20) {
-              review_text = cleanedText;
-            }
-          } catch (e) {
-            // Ignore
-          }
-        }
-
-        // Extract date - try from element first, then from text
-        let review_date: string | null = null;
-        
-        // Method 1: Try to find date element
-        try {
-          const dateEl = await item.$("span[jsname='T3Jpef'], span[class*='date'], span[aria-label*='ago']");
-          if (dateEl) {
-            review_date = (await dateEl.innerText()).trim();
-          }
-        } catch (e) {
-          // Continue to text-based extraction
-        }
-        
-        // Method 2: Extract from text (usually last line or contains "ago")
-        if (!review_date) {
-          // Look for date pattern in lines (usually at the end)
-          for (let j = lines.length - 1; j >= 0; j--) {
-            const line = lines[j];
-            if (!line) continue;
-            const dateMatch = line.match(/(\d+\s*(?:month|year|week|day|hour|minute)s?\s*ago)/i);
-            if (dateMatch && dateMatch[1]) {
-              review_date = dateMatch[1];
-              break;
-            }
-          }
-        }
-        
-        console.log(`Extracted - Rating: ${rating}, Name: ${reviewer_name?.substring(0, 30) || 'N/A'}, Date: ${review_date || 'N/A'}, Text: ${review_text?.substring(0, 50) || 'N/A'}...`);
-
-        // Add review if we have any data at all (be less strict)
-        // Even if we only have a name or date, it's still a review
-        if (rating || review_text || reviewer_name || review_date) {
-          scraped.push({
-            rating,
-            review_text: review_text || null,
-            review_date: review_date || null,
-            reviewer_name: reviewer_name || null,
-          });
-          console.log(`✓ Added review ${i + 1} to scraped list`);
-        } else {
-          console.log(`✗ Skipping review ${i + 1} - no data found at all`);
-          // Debug: log the raw text to see what we're missing
-          console.log(`  Raw text preview: ${allText.substring(0, 100)}...`);
-        }
-      } catch (reviewError) {
-        console.error(`Error processing review ${i + 1}:`, reviewError);
-        // Continue with next review
-        continue;
-      }
+  const url = withLanguageParam(googleMapsUrl, language);
+  console.log("Opening Google Maps URL:", url);
+  const response = await politeGoto(page, url, { waitUntil: "networkidle" });
+
+  // Wait for page to load
+  await page.waitForTimeout(3000);
+
+  if (await acceptConsent(page, language)) ctx.onEvent({ type: "consent_handled" });
+  await assertPageReachable(page, response?.status() ?? null);
+  await forceLanguageAfterRedirect(page, language);
+
+  await ctx.artifacts.screenshot(page, "initial");
+
+  // The header (rating, hours, address) is replaced once the reviews tab opens
+  const placeHtml = await page
+    .$eval('div[role="main"]', (el) => el.outerHTML)
+    .catch(() => page.content());
+
+  const reviewsTabOpened = await openReviewsFeed(page);
+  if (reviewsTabOpened) ctx.onEvent({ type: "reviews_tab_opened" });
+
+  // Scroll the review feed until we have enough reviews, hit one we already
+  // stored (incremental mode) or the feed stops growing
+  const scrollContainerSelector = SCROLL_CONTAINER_SELECTORS.join(", ");
+  const shownCount = parseGoogleMapsPlaceHtml(placeHtml).review_count;
+  let reviewCount = await countLoadedReviews(page);
+  let stopReason: ScrapeStopReason;
+  let stalledScrolls = 0;
+
+  while (true) {
+    if (reviewCount >= limit) {
+      stopReason = "limit";
+      break;
     }
 
-    console.log(`Scraped ${scraped.length} reviews, inserting into DB...`);
-
-    let insertedCount = 0;
-    for (let idx = 0; idx < scraped.length; idx++) {
-      const review = scraped[idx];
-      if (!review) continue; // Skip if review is undefined
-      
-      try {
-        // Don't try to parse date as Date object - store as string
-        // Dates like "3 months ago" can't be parsed as Date objects
-        await pool.query(
-          `
-          INSERT INTO public.reviews (competitor_id, rating, review_text, review_date, reviewer_name, source, raw_data)
-          VALUES ($1, $2, $3, $4, $5, 'google_maps', $6)
-          `,
-          [
-            competitorId,
-            review.rating,
-            review.review_text,
-            review.review_date, // Store as string, not Date object
-            review.reviewer_name,
-            JSON.stringify(review), // store raw struct as jsonb
-          ]
-        );
-        insertedCount++;
-        console.log(`✓ Inserted review ${idx + 1}/${scraped.length}`);
-      } catch (dbError) {
-        console.error(`✗ Error inserting review ${idx + 1}:`, dbError);
-        // Continue with next review instead of failing completely
-        continue;
+    if (ctx.knownKeys.size > 0) {
+      const visibleIds = await page.$$eval("[data-review-id]", (els) =>
+        els.map((el) => el.getAttribute("data-review-id"))
+      );
+      if (visibleIds.some((reviewId) => reviewId && ctx.knownKeys.has(reviewId))) {
+        console.log("Reached a review that is already stored, stopping scroll");
+        stopReason = "known_review";
+        break;
       }
     }
-    
-    console.log(`Successfully inserted ${insertedCount} out of ${scraped.length} reviews`);
-
-    console.log(`Successfully scraped ${scraped.length} reviews`);
-    
-    return insertedCount; // Return the number actually inserted, not scraped
-  } catch (error) {
-    console.error("Error scraping Google Maps:", error);
-    if (error instanceof Error) {
-      console.error("Error message:", error.message);
-      console.error("Error stack:", error.stack);
+
+    const scrollContainer = await page.$(scrollContainerSelector);
+    if (!scrollContainer) {
+      stopReason = "no_container";
+      break;
     }
-    throw error;
-  } finally {
-    try {
-      await browser.close();
-    } catch (e) {
-      // Ignore close errors
+
+    await scrollContainer.evaluate((el) => {
+      el.scrollBy(0, el.scrollHeight);
+    });
+    await page.waitForTimeout(1500);
+
+    const previousCount = reviewCount;
+    reviewCount = await countLoadedReviews(page);
+    console.log(`Scrolling review feed... ${reviewCount} reviews loaded`);
+    ctx.onEvent({ type: "reviews_loaded", loaded: Math.min(reviewCount, limit), limit });
+
+    stalledScrolls = reviewCount > previousCount ? 0 : stalledScrolls + 1;
+    if (stalledScrolls >= MAX_STALLED_SCROLLS) {
+      stopReason = (await feedEnded(scrollContainer, reviewCount, shownCount)) ? "end_of_feed" : "stalled";
+      break;
     }
   }
-}
 
+  console.log(`Found ${reviewCount} review elements`);
 
+  // Full page when nothing was found: shows consent walls and empty places
+  if (reviewCount === 0) {
+    await ctx.artifacts.screenshot(page, "no-reviews", true);
+    await ctx.artifacts.html("page", await page.content());
 
+    // An empty feed is fine for a place without reviews, not for one showing a count
+    if (!reviewsTabOpened && shownCount) {
+      throw new ScrapeError(
+        "no_reviews_tab",
+        `The place shows ${shownCount} reviews but the reviews panel could not be opened.`
+      );
+    }
+  }
+
+  // Snapshot the review panel; all extraction happens offline in the parser
+  const scrollContainer = await page.$(scrollContainerSelector);
+  const reviewsHtml = scrollContainer
+    ? await scrollContainer.evaluate((el) => el.outerHTML)
+    : await page.content();
+  const matchedSelector = scrollContainer
+    ? await scrollContainer.evaluate(
+        (el, selectors) => selectors.find((s) => el.matches(s)) ?? null,
+        SCROLL_CONTAINER_SELECTORS
+      )
+    : null;
 
+  // Same HTML the parser sees, so a bad parse can be replayed offline
+  await ctx.artifacts.html("place", placeHtml);
+  await ctx.artifacts.html("reviews", reviewsHtml);
 
+  return {
+    raw: { placeHtml, reviewsHtml },
+    stopReason,
+    language: await detectPageLanguage(page),
+    elementsFound: reviewCount,
+    selectorStrategy: matchedSelector ? `scroll container ${matchedSelector}` : "full page (no review panel)",
+  };
+}
+
+export const googleMapsSource: ReviewSource<GoogleMapsCapture> = {
+  name: "google_maps",
+  matchesUrl(url) {
+    return /^https?:\/\/(?:www\.|maps\.)?google\.[a-z.]+\/maps|^https?:\/\/maps\.app\.goo\.gl\/|^https?:\/\/goo\.gl\/maps\//i.test(url);
+  },
+  fetch: fetchGoogleMapsReviews,
+  parse: (raw) => parseGoogleMapsReviewsHtml(raw.reviewsHtml),
+  parsePlace: (raw) => parseGoogleMapsPlaceHtml(raw.placeHtml),
+};
@@ -0,0 +1,412 @@
+import * as cheerio from "cheerio";
+import type { Cheerio, CheerioAPI } from "cheerio";
+import type { AnyNode } from "domhandler";
+import { GoogleMapsUrlError, parseGoogleMapsUrl } from "./googleMapsUrl";
+import { RELATIVE_DATE_PATTERN } from "./relativeDates";
+import type { PlaceCandidate, PlaceMetadata, ScrapedReview } from "./types";
+
+// Outer review element; nested buttons can repeat data-review-id
+const REVIEW_ITEM_SELECTOR = 'div[data-review-id], div[aria-label="Google review"]';
+
+const RATING_SELECTOR =
+  'span[role="img"][aria-label*="star"], span[role="img"][aria-label*="ster"], span[role="img"][aria-label*="toile"], span[role="img"][aria-label*="Stern"], span[aria-label*="star"], img[aria-label*="star"]';
+const NAME_SELECTOR = "div.d4r55, a[href*='contrib'], button[aria-label*='Profile']";
+const BODY_SELECTOR = "span.wiI7pd, span[jsname='bN97Pc'], span[class*='review-text'], div[class*='review-text']";
+const CONTRIBUTOR_SELECTOR = "div.RfnDt";
+const DATE_SELECTOR =
+  "span.rsqaWe, span[jsname='T3Jpef'], span[class*='date'], span[aria-label*='ago'], span[aria-label*='geleden'], span[aria-label*='il y a'], span[aria-label^='vor ']";
+
+// "4 stars", "Rated 4 out of 5", "4 sterren", "1 ster", "4 étoiles", "4 Sterne"
+const RATING_LABEL_PATTERN =
+  /Rated (\d+(?:[.,]\d+)?) out of 5|(\d+(?:[.,]\d+)?)\s*(?:stars?|sterren|ster|étoiles?|Sternen|Sterne|Stern)\b/i;
+const RATING_TEXT_PATTERN =
+  /(\d+(?:[.,]\d+)?)\s*(?:out of|van de|sur|von|\/)\s*5|(\d+(?:[.,]\d+)?)\s*(?:stars?|sterren|ster|étoiles?|Sternen|Sterne|Stern)\b/i;
+
+// Reply block under a review: header + date, then the reply text
+const OWNER_RESPONSE_SELECTOR = "div.CDe7pd";
+const OWNER_RESPONSE_DATE_SELECTOR = "span.DZSIDd";
+const OWNER_RESPONSE_TEXT_SELECTOR = "div.wiI7pd, span.wiI7pd";
+const OWNER_RESPONSE_HEADER_PATTERN =
+  /^(?:Response from the owner|Reactie van de eigenaar|Réponse du propriétaire|Antwort vom Inhaber)/i;
+
+// Buttons and badges that end up in the text of a review element (EN/NL/FR/DE)
+const UI_LINE_PATTERN =
+  /^(?:More|Meer|Plus|Mehr|Like|Vind ik leuk|J'aime|Gefällt mir|Share|Delen|Partager|Teilen|New|Nieuw|Nouveau|Neu|See more|Lees meer|Voir plus|Mehr anzeigen)$/i;
+
+// "Local Guide · 42 reviews", "12 foto's", "3 avis", "5 Rezensionen"
+const CONTRIBUTOR_LINE_PATTERN =
+  /^Local Guide\b|^\d+\s+(?:reviews?|foto'?s|photos?|avis|Rezensionen|Rezension|Fotos?)\b/i;
+
+// The reviewer's own review count in that line: "42 reviews", "1 review", "4 avis", "1 Rezension"
+const REVIEWER_REVIEW_COUNT_PATTERN =
+  /(?:^|·)\s*(\d+(?:[.,\u00a0 ]\d{3})*)\s+(?:reviews?|recensies?|avis|Rezensionen|Rezension)\b/i;
+
+const BLOCK_TAGS = new Set(["div", "p", "br", "li", "ul", "section", "article", "button", "h1", "h2", "h3"]);
+
+/**
+ * Rough equivalent of the browser's innerText: block elements start a new
+ * line, inline elements don't. Only used for the line-based fallback.
+ */
+function innerText($: CheerioAPI, el: Cheerio<AnyNode>): string {
+  const parts: string[] = [];
+
+  const walk = (nodes: Cheerio<AnyNode>) => {
+    nodes.each((_i, node) => {
+      if (node.type === "text") {
+        parts.push($(node).text());
+        return;
+      }
+      if (!("tagName" in node)) return;
+
+      const isBlock = BLOCK_TAGS.has(node.tagName);
+      if (isBlock) parts.push("\n");
+      walk($(node).contents());
+      if (isBlock) parts.push("\n");
+    });
+  };
+
+  walk(el);
+  return parts.join("").replace(/[ \t]+/g, " ");
+}
+
+function parseRating(value: string | undefined, pattern: RegExp): number | null {
+  if (!value) return null;
+  const match = value.match(pattern);
+  if (!match) return null;
+  const rating = parseFloat((match[1] || match[2] || "0").replace(",", "."));
+  return rating > 0 && rating <= 5 ? rating : null;
+}
+
+function firstText(item: Cheerio<AnyNode>, selector: string): string | null {
+  const text = item.find(selector).first().text().trim();
+  return text || null;
+}
+
+type OwnerResponse = { text: string | null; date: string | null };
+
+/**
+ * Split the owner's reply off the text lines of a review: everything from the
+ * "Response from the owner" line on belongs to the reply. The date sits on the
+ * header line itself or on the line right after it.
+ */
+function splitOwnerResponseLines(lines: string[]): { reviewLines: string[]; response: OwnerResponse | null } {
+  const headerIdx = lines.findIndex((line) => OWNER_RESPONSE_HEADER_PATTERN.test(line));
+  if (headerIdx < 0) return { reviewLines: lines, response: null };
+
+  const responseLines = lines.slice(headerIdx);
+  responseLines[0] = (responseLines[0] ?? "").replace(OWNER_RESPONSE_HEADER_PATTERN, "").trim();
+
+  let date: string | null = null;
+  const textLines: string[] = [];
+  for (const line of responseLines) {
+    const dateMatch: RegExpMatchArray | null =
+      date === null && textLines.length === 0 ? line.match(RELATIVE_DATE_PATTERN) : null;
+    if (dateMatch?.[0]) {
+      date = dateMatch[0];
+      continue;
+    }
+    if (line) textLines.push(line);
+  }
+
+  return {
+    reviewLines: lines.slice(0, headerIdx),
+    response: { text: textLines.join(" ").trim() || null, date },
+  };
+}
+
+/**
+ * Parse a captured Google Maps review panel (HTML snapshot) into reviews.
+ *
+ * Pure: no browser, no network, so it runs against saved fixtures. The current
+ * layout is read through its element classes; when those are missing we fall
+ * back to splitting the element's text into lines (name, rating, text, date).
+ * An owner's reply is returned in its own fields, never as part of review_text.
+ */
+export function parseGoogleMapsReviewsHtml(html: string): ScrapedReview[] {
+  const $ = cheerio.load(html);
+  const scraped: ScrapedReview[] = [];
+
+  const items = $(REVIEW_ITEM_SELECTOR).filter(
+    (_i, el) => $(el).parents(REVIEW_ITEM_SELECTOR).length === 0
+  );
+
+  items.each((_i, el) => {
+    const item = $(el);
+
+    const external_id =
+      item.attr("data-review-id") ?? item.find("[data-review-id]").first().attr("data-review-id") ?? null;
+
+    // A recognised layout: trust its elements, even when one is empty
+    // (a rating-only review has no text element)
+    const structured = item.find(NAME_SELECTOR).length > 0;
+
+    // Owner reply: read its own block, then take it out so none of the
+    // selectors or line fallbacks below can pick up its text or date
+    let ownerResponse: OwnerResponse | null = null;
+    const responseEl = item.find(OWNER_RESPONSE_SELECTOR).first();
+    if (responseEl.length > 0) {
+      const header = responseEl.text().replace(/\s+/g, " ").trim();
+      ownerResponse = {
+        text: firstText(responseEl, OWNER_RESPONSE_TEXT_SELECTOR),
+        date:
+          firstText(responseEl, OWNER_RESPONSE_DATE_SELECTOR) ??
+          header.match(RELATIVE_DATE_PATTERN)?.[0] ??
+          null,
+      };
+      responseEl.remove();
+    }
+
+    const split = splitOwnerResponseLines(
+      innerText($, item)
+        .split("\n")
+        .map((l) => l.trim())
+        .filter((l) => l.length > 0 && !UI_LINE_PATTERN.test(l))
+    );
+    const lines = split.reviewLines;
+    ownerResponse = ownerResponse ?? split.response;
+    const allText = lines.join("\n");
+
+    // Rating: aria-label of the stars, then text
+    let rating = parseRating(item.find(RATING_SELECTOR).first().attr("aria-label"), RATING_LABEL_PATTERN);
+    if (rating === null && !structured) {
+      rating = parseRating(allText, RATING_TEXT_PATTERN);
+    }
+
+    // Reviewer name: contributor element, then first line
+    let reviewer_name = firstText(item, NAME_SELECTOR);
+    if (!reviewer_name && lines[0]) {
+      reviewer_name = lines[0]
+        .replace(new RegExp(`\\s*(?:${RELATIVE_DATE_PATTERN.source}).*$`, "i"), "")
+        .trim() || null;
+    }
+
+    // Reviewer's review count: contributor element, then a contributor line
+    const contributorLine =
+      firstText(item, CONTRIBUTOR_SELECTOR) ?? lines.find((line) => CONTRIBUTOR_LINE_PATTERN.test(line));
+    const countMatch = contributorLine?.match(REVIEWER_REVIEW_COUNT_PATTERN);
+    const reviewer_review_count = countMatch?.[1] ? parseInt(countMatch[1].replace(/\D/g, ""), 10) : null;
+
+    // Date: date element, then the last line that looks like a date
+    let review_date = firstText(item, DATE_SELECTOR);
+    if (!review_date) {
+      for (let j = lines.length - 1; j >= 0; j--) {
+        const dateMatch = lines[j]?.match(RELATIVE_DATE_PATTERN);
+        if (dateMatch?.[0]) {
+          review_date = dateMatch[0];
+          break;
+        }
+      }
+    }
+
+    // Text: text element, then the lines that are not name, rating or date
+    let review_text = firstText(item, BODY_SELECTOR);
+    if (!review_text && !structured && lines.length > 1) {
+      const textLines = lines.slice(1).filter((line) => {
+        if (RATING_TEXT_PATTERN.test(line)) return false;
+        if (RELATIVE_DATE_PATTERN.test(line)) return false;
+        if (CONTRIBUTOR_LINE_PATTERN.test(line)) return false;
+        if (reviewer_name && line === reviewer_name) return false;
+        return true;
+      });
+      review_text = textLines.join(" ").trim() || null;
+    }
+
+    if (review_text) {
+      review_text = review_text.replace(/\s+/g, " ").trim();
+    }
+
+    // Add review if we have any data at all
+    if (rating || review_text || reviewer_name || review_date) {
+      scraped.push({
+        external_id,
+        rating,
+        review_text: review_text || null,
+        review_date: review_date || null,
+        reviewer_name: reviewer_name || null,
+        reviewer_review_count,
+        owner_response_text: ownerResponse?.text?.replace(/\s+/g, " ") ?? null,
+        owner_response_date: ownerResponse?.date ?? null,
+      });
+    }
+  });
+
+  return scraped;
+}
+
+// "Address: Stationsstraat 1" / "Adres: Stationsstraat 1" -> "Stationsstraat 1"
+function stripLabel(value: string | undefined): string | null {
+  if (!value) return null;
+  const stripped = value.replace(/^[^:]{1,20}:\s*/, "").trim();
+  return stripped || null;
+}
+
+function parseLocaleNumber(value: string): number | null {
+  const n = parseFloat(value.replace(",", "."));
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Parse the header of a Google Maps place page (HTML snapshot): official star
+ * average, total review count, price level, categories, contact details and
+ * opening hours. Fields that are not on the page are null / empty.
+ */
+export function parseGoogleMapsPlaceHtml(html: string): PlaceMetadata {
+  const $ = cheerio.load(html);
+
+  const name = $("h1.DUwDvf, h1").first().text().trim() || null;
+
+  // "4.5" (en) or "4,5" (nl) next to the stars
+  const ratingText =
+    $("div.F7nice span[aria-hidden='true']").first().text().trim() ||
+    ($("div.F7nice span[role='img']").first().attr("aria-label") ?? "");
+  const ratingMatch = ratingText.match(/(\d(?:[.,]\d)?)/);
+  const rating = ratingMatch?.[1] ? parseLocaleNumber(ratingMatch[1]) : null;
+
+  // "1,234 reviews" / "1.234 reviews" / "1 234 avis" / "(1,234)" - thousands separators vary
+  const countLabel =
+    $("div.F7nice span[aria-label*='review'], div.F7nice span[aria-label*='avis'], div.F7nice span[aria-label*='Rezension']")
+      .first()
+      .attr("aria-label") ||
+    $("div.F7nice").text().match(/\(([\d.,\s]+)\)/)?.[1] ||
+    "";
+  const countDigits = countLabel.replace(/[^\d]/g, "");
+  const review_count = countDigits ? parseInt(countDigits, 10) : null;
+
+  // "€€" with aria-label "Price: Moderate" / "Prijs: Gemiddeld" / "Prix" / "Preis", or "€10–20"
+  const price_level =
+    $("span[aria-label^='Price'], span[aria-label^='Prijs'], span[aria-label^='Prix'], span[aria-label^='Preis']")
+      .first()
+      .text()
+      .trim()
+      .replace(/^·\s*/, "") ||
+    null;
+
+  const categories = $("button.DkEaL, button[jsaction*='category']")
+    .map((_i, el) => $(el).text().trim())
+    .get()
+    .filter(Boolean);
+
+  const address =
+    $("button[data-item-id='address'] div.Io6YTe").first().text().trim() ||
+    stripLabel($("button[data-item-id='address']").attr("aria-label"));
+
+  const phone =
+    $("button[data-item-id^='phone:tel:'] div.Io6YTe").first().text().trim() ||
+    ($("button[data-item-id^='phone:tel:']").attr("data-item-id") ?? "").replace("phone:tel:", "") ||
+    null;
+
+  const website = $("a[data-item-id='authority']").attr("href") ?? null;
+
+  // Opening hours table: day in the first cell, hours in the second
+  let opening_hours: Record<string, string> | null = null;
+  $("table.eK4R0e tr, table[class*='hours'] tr").each((_i, row) => {
+    const day = $(row).find("td").first().text().trim();
+    const hoursCell = $(row).find("td").eq(1);
+    const hours = (hoursCell.attr("aria-label") || hoursCell.text()).replace(/\s+/g, " ").trim();
+    if (day && hours) {
+      opening_hours = { ...(opening_hours ?? {}), [day]: hours };
+    }
+  });
+
+  // Fallback: "Monday, 11 am to 10 pm; Tuesday, Closed; ..." on the summary element
+  if (!opening_hours) {
+    const summary = $(
+      "div.t39EBf, div[aria-label*='Hide open hours'], div[aria-label*='openingstijden'], div[aria-label*='horaires'], div[aria-label*='Öffnungszeiten']"
+    )
+      .first()
+      .attr("aria-label");
+    for (const part of (summary ?? "").split(";")) {
+      const [day, ...rest] = part.split(",");
+      const hours = rest.join(",").replace(/\.\s*(?:Hide|Verberg|Masquer|Öffnungszeiten).*$/i, "").trim();
+      if (day?.trim() && hours) {
+        opening_hours = { ...(opening_hours ?? {}), [day.trim()]: hours };
+      }
+    }
+  }
+
+  return {
+    name,
+    rating,
+    review_count,
+    price_level,
+    categories,
+    address: address || null,
+    phone,
+    website,
+    opening_hours,
+  };
+}
+
+// Result cards in the search feed; the overlay link carries name and place URL
+const SEARCH_RESULT_SELECTOR = "div[role='feed'] div.Nv2PK, div[role='feed'] div[jsaction*='mouseover']";
+const SEARCH_RESULT_LINK_SELECTOR = "a.hfpxzc, a[href*='/maps/place/']";
+// Opening status lines ("Open · Closes 10 pm") are not addresses
+const SEARCH_STATUS_PATTERN =
+  /^(?:Open|Closed|Closes|Opens|Temporarily closed|Geopend|Gesloten|Sluit|Opent|Ouvert|Fermé|Ferme|Geöffnet|Geschlossen|Schließt|Öffnet)(?![a-zà-ÿ])/i;
+
+/**
+ * Parse the result list of a Google Maps search (HTML snapshot) into
+ * candidate places. Results whose link is not a single place (ads, "more
+ * results" links) are skipped.
+ */
+export function parseGoogleMapsSearchHtml(html: string): PlaceCandidate[] {
+  const $ = cheerio.load(html);
+  const candidates: PlaceCandidate[] = [];
+  const seen = new Set<string>();
+
+  $(SEARCH_RESULT_SELECTOR)
+    .filter((_i, el) => $(el).parents(SEARCH_RESULT_SELECTOR).length === 0)
+    .each((_i, el) => {
+      const card = $(el);
+      const link = card.find(SEARCH_RESULT_LINK_SELECTOR).first();
+      const href = link.attr("href");
+      if (!href) return;
+
+      let ref;
+      try {
+        ref = parseGoogleMapsUrl(href);
+      } catch (e) {
+        if (e instanceof GoogleMapsUrlError) return;
+        throw e;
+      }
+      if (seen.has(ref.url)) return;
+      seen.add(ref.url);
+
+      const name = card.find("div.qBF1Pd, div.fontHeadlineSmall").first().text().trim() || link.attr("aria-label") || ref.name;
+
+      const ratingText = card.find("span.MW4etd").first().text().trim();
+      const countText = card.find("span.UY7F9").first().text().replace(/[^\d]/g, "");
+      const starsLabel = card.find("span[role='img'][aria-label]").first().attr("aria-label") ?? "";
+
+      // "Fast food restaurant · Stationsstraat 12": category first, address has a digit
+      const details = card
+        .find("div.W4Efsd")
+        .filter((_j, row) => $(row).find("div.W4Efsd").length === 0)
+        .map((_j, row) => $(row).text())
+        .get()
+        .flatMap((text: string) => text.split("·"))
+        .map((text: string) => text.replace(/\s+/g, " ").trim())
+        .filter(
+          (text: string) =>
+            text &&
+            !/^[€$£]+/.test(text) &&
+            !/^\d(?:[.,]\d)?\s*\(/.test(text) &&
+            !SEARCH_STATUS_PATTERN.test(text)
+        );
+      const category = details.find((text) => !/\d/.test(text)) ?? null;
+      const address = details.find((text) => /\d/.test(text) && /[a-z]/i.test(text)) ?? null;
+
+      candidates.push({
+        ...ref,
+        name: name || null,
+        rating: ratingText
+          ? parseLocaleNumber(ratingText)
+          : parseRating(starsLabel, RATING_LABEL_PATTERN),
+        review_count: countText ? parseInt(countText, 10) : null,
+        category,
+        address,
+      });
+    });
+
+  return candidates;
+}
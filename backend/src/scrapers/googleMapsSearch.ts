@@ -0,0 +1,79 @@
+import { withBrowserPage } from "../browserPool";
+import { assertPageReachable } from "./errors";
+import { parseGoogleMapsPlaceHtml, parseGoogleMapsSearchHtml } from "./googleMapsParser";
+import { GoogleMapsUrlError, parseGoogleMapsUrl } from "./googleMapsUrl";
+import {
+  acceptConsent,
+  browserContextOptions,
+  withLanguageParam,
+  type ScrapeLanguage,
+} from "./locale";
+import { politeGoto } from "./politeness";
+import type { PlaceCandidate } from "./types";
+
+// Google shows about 20 results before the feed needs scrolling
+const MAX_CANDIDATES = 20;
+
+// Map zoom for searches around a point; 14 covers a small town or a few districts
+const NEARBY_ZOOM = 14;
+
+/**
+ * Look up places on Google Maps by free text ("Frituur Centrale Lanaken").
+ * A search with one clear match opens that place directly; that page is read
+ * as a single candidate. With `near`, the map is centred on that point, so a
+ * category ("snack bar") returns the places around it. Throws a ScrapeError
+ * when Google blocks the search.
+ */
+export async function searchGoogleMapsPlaces(
+  query: string,
+  language: ScrapeLanguage,
+  near: { lat: number; lng: number } | null = null
+): Promise<PlaceCandidate[]> {
+  const viewport = near ? `/@${near.lat},${near.lng},${NEARBY_ZOOM}z` : "";
+  const searchUrl = withLanguageParam(
+    `https://www.google.com/maps/search/${encodeURIComponent(query).replace(/%20/g, "+")}${viewport}`,
+    language
+  );
+
+  return withBrowserPage(browserContextOptions(language), async (page) => {
+    console.log("Searching Google Maps:", searchUrl);
+    const response = await politeGoto(page, searchUrl, { waitUntil: "networkidle" });
+    await page.waitForTimeout(2000);
+    await acceptConsent(page, language);
+    // A captcha or consent page would otherwise read as "no results"
+    await assertPageReachable(page, response?.status() ?? null);
+
+    // Either a result feed or, for a single match, the place page itself
+    await page
+      .waitForSelector('div[role="feed"], h1', { timeout: 10000 })
+      .catch(() => console.log("No result feed or place header appeared"));
+
+    if (/\/maps\/place\//.test(page.url()) && !(await page.$('div[role="feed"]'))) {
+      try {
+        const ref = parseGoogleMapsUrl(page.url());
+        const placeHtml = await page
+          .$eval('div[role="main"]', (el) => el.outerHTML)
+          .catch(() => page.content());
+        const place = parseGoogleMapsPlaceHtml(placeHtml);
+        return [
+          {
+            ...ref,
+            name: place.name ?? ref.name,
+            rating: place.rating,
+            review_count: place.review_count,
+            category: place.categories[0] ?? null,
+            address: place.address,
+          },
+        ];
+      } catch (e) {
+        if (!(e instanceof GoogleMapsUrlError)) throw e;
+        return [];
+      }
+    }
+
+    const feedHtml = await page
+      .$eval('div[role="feed"]', (el) => el.outerHTML)
+      .catch(() => "");
+    return parseGoogleMapsSearchHtml(feedHtml).slice(0, MAX_CANDIDATES);
+  });
+}
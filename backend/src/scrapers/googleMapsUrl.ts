@@ -0,0 +1,197 @@
+/**
+ * Google Maps URLs come in many shapes: place pages with a data= blob, share
+ * links (maps.app.goo.gl), ?cid= links, "place_id:" queries, and search or
+ * directions URLs that don't point at one place at all. This module turns the
+ * ones that identify a place into a canonical place URL plus its ids, and
+ * rejects the rest with a reason the user can act on.
+ */
+
+export type GoogleMapsPlaceRef = {
+  url: string; // canonical place URL, the one we store and scrape
+  place_id: string | null; // "ChIJ..." (Places API id)
+  feature_id: string | null; // "0x47c0...:0x1a2b..." (Maps internal id)
+  cid: string | null; // decimal customer id, the second half of feature_id
+  name: string | null;
+  lat: number | null;
+  lng: number | null;
+};
+
+export type GoogleMapsUrlErrorReason =
+  | "invalid_url"
+  | "not_google_maps"
+  | "not_a_place"
+  | "unresolvable_short_link";
+
+export class GoogleMapsUrlError extends Error {
+  constructor(
+    readonly reason: GoogleMapsUrlErrorReason,
+    message: string
+  ) {
+    super(message);
+    this.name = "GoogleMapsUrlError";
+  }
+}
+
+const GOOGLE_MAPS_HOST = /^(?:www\.|maps\.)?google\.[a-z.]+$/i;
+const SHORT_LINK_HOST = /^(?:maps\.app\.goo\.gl|goo\.gl)$/i;
+
+// Redirect hops followed for share links before giving up
+const MAX_REDIRECTS = 5;
+
+function isShortLink(u: URL): boolean {
+  return SHORT_LINK_HOST.test(u.hostname) && (u.hostname !== "goo.gl" || u.pathname.startsWith("/maps"));
+}
+
+function parseUrl(raw: string): URL {
+  const trimmed = raw.trim();
+  try {
+    // People paste "google.com/maps/place/..." without the scheme
+    return new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch (e) {
+    throw new GoogleMapsUrlError("invalid_url", "This is not a valid URL.");
+  }
+}
+
+function toNumber(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+// "0x47c0df3:0x1a2b3c" -> "1887292" (the hex CID as a decimal string)
+function cidFromFeatureId(featureId: string): string | null {
+  const hex = featureId.split(":")[1];
+  if (!hex) return null;
+  try {
+    return BigInt(hex).toString();
+  } catch (e) {
+    return null;
+  }
+}
+
+function canonicalUrl(ref: Omit<GoogleMapsPlaceRef, "url">): string {
+  const name = encodeURIComponent(ref.name ?? "place").replace(/%20/g, "+");
+  if (ref.feature_id) {
+    return `https://www.google.com/maps/place/${name}/data=!4m2!3m1!1s${ref.feature_id}`;
+  }
+  if (ref.place_id) {
+    return `https://www.google.com/maps/place/?q=place_id:${ref.place_id}`;
+  }
+  if (ref.cid) {
+    return `https://maps.google.com/?cid=${ref.cid}`;
+  }
+  return `https://www.google.com/maps/place/${name}/@${ref.lat},${ref.lng},17z`;
+}
+
+/**
+ * Read a full (non-short) Google Maps URL. Pure, no network; throws
+ * GoogleMapsUrlError when the URL is not a single place.
+ */
+export function parseGoogleMapsUrl(raw: string): GoogleMapsPlaceRef {
+  const u = parseUrl(raw);
+
+  if (isShortLink(u)) {
+    throw new GoogleMapsUrlError(
+      "unresolvable_short_link",
+      "Share links (maps.app.goo.gl) must be resolved first."
+    );
+  }
+  if (!GOOGLE_MAPS_HOST.test(u.hostname)) {
+    throw new GoogleMapsUrlError("not_google_maps", "This is not a Google Maps URL.");
+  }
+
+  const path = decodeURIComponent(u.pathname);
+  if (!u.hostname.toLowerCase().startsWith("maps.") && !path.startsWith("/maps")) {
+    throw new GoogleMapsUrlError("not_google_maps", "This is a Google URL, but not a Google Maps one.");
+  }
+  // Matched on the raw path: the blob holds %2F-encoded parts ("!16s%2Fg%2F...")
+  const data = u.pathname.match(/\/data=([^/?]+)/)?.[1] ?? "";
+
+  const place_id =
+    data.match(/!19s(ChIJ[\w-]+)/)?.[1] ||
+    u.searchParams.get("query_place_id") ||
+    (u.searchParams.get("q") ?? "").match(/^place_id:(\S+)$/)?.[1] ||
+    null;
+  const feature_id =
+    data.match(/!1s(0x[0-9a-f]+:0x[0-9a-f]+)/i)?.[1] ??
+    u.searchParams.get("ftid") ??
+    null;
+  const cid = u.searchParams.get("cid") || (feature_id ? cidFromFeatureId(feature_id) : null);
+
+  // !3d/!4d are the place's own coordinates; @lat,lng is only the viewport
+  const placeCoords = data.match(/!3d(-?\d+(?:\.\d+)?)!4d(-?\d+(?:\.\d+)?)/);
+  const viewport = path.match(/@(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/);
+  const lat = toNumber(placeCoords?.[1] ?? viewport?.[1]);
+  const lng = toNumber(placeCoords?.[2] ?? viewport?.[2]);
+
+  const isPlacePath = /^\/maps\/place\//.test(path);
+  const name = isPlacePath
+    ? path.match(/^\/maps\/place\/([^/@]+)/)?.[1]?.replace(/\+/g, " ").trim() || null
+    : null;
+
+  if (/^\/maps\/dir\//.test(path)) {
+    throw new GoogleMapsUrlError(
+      "not_a_place",
+      "This is a directions link. Open the place itself in Google Maps and copy that URL."
+    );
+  }
+
+  const identified = Boolean(place_id || feature_id || cid);
+  if (!identified && !(isPlacePath && name && lat !== null && lng !== null)) {
+    throw new GoogleMapsUrlError(
+      "not_a_place",
+      /^\/maps\/search\//.test(path) || u.searchParams.has("q") || u.searchParams.has("query")
+        ? "This is a search results link, not a single place. Pick the place in the results and copy its URL."
+        : "This Google Maps URL does not point to a single place."
+    );
+  }
+
+  const ref = { place_id, feature_id, cid, name, lat, lng };
+  return { ...ref, url: canonicalUrl(ref) };
+}
+
+/**
+ * Follow a share link (maps.app.goo.gl/...) to the URL it redirects to,
+ * without downloading the page.
+ */
+async function followShortLink(url: string): Promise<string> {
+  let current = url;
+  for (let hop = 0; hop < MAX_REDIRECTS; hop++) {
+    const res = await fetch(current, { method: "HEAD", redirect: "manual" });
+    const location = res.headers.get("location");
+    if (!location) break;
+    current = new URL(location, current).toString();
+
+    const u = new URL(current);
+    // The consent interstitial carries the real destination in ?continue=
+    if (u.hostname.startsWith("consent.") && u.searchParams.get("continue")) {
+      return u.searchParams.get("continue")!;
+    }
+    if (GOOGLE_MAPS_HOST.test(u.hostname)) return current;
+  }
+  throw new GoogleMapsUrlError(
+    "unresolvable_short_link",
+    "This share link could not be resolved to a Google Maps place."
+  );
+}
+
+/**
+ * Validate any Google Maps URL a user pastes and return the canonical place
+ * URL with its ids. Share links are followed over the network first.
+ */
+export async function resolveGoogleMapsUrl(raw: string): Promise<GoogleMapsPlaceRef> {
+  const u = parseUrl(raw);
+  if (!isShortLink(u)) return parseGoogleMapsUrl(u.toString());
+
+  let target: string;
+  try {
+    target = await followShortLink(u.toString());
+  } catch (e) {
+    if (e instanceof GoogleMapsUrlError) throw e;
+    throw new GoogleMapsUrlError(
+      "unresolvable_short_link",
+      "This share link could not be resolved right now. Try again or paste the full Google Maps URL."
+    );
+  }
+  return parseGoogleMapsUrl(target);
+}
@@ -0,0 +1,146 @@
+import type { Page } from "playwright";
+import { reviewKey } from "../ingest";
+import * as cheerio from "cheerio";
+import { assertPageReachable } from "./errors";
+import { reviewsFromJsonLd } from "./jsonLd";
+import { acceptConsent, detectPageLanguage } from "./locale";
+import { politeGoto } from "./politeness";
+import type {
+  FetchContext,
+  FetchResult,
+  ReviewSource,
+  ScrapedReview,
+  ScrapeStopReason,
+} from "./types";
+
+// Upper bound on pages per scrape, whatever the limit
+const MAX_PAGES = 100;
+
+type HtmlReviewSourceConfig = {
+  name: string;
+  hosts: RegExp;
+  /** URL of the n-th page of reviews (0-based), newest first */
+  pageUrl(url: string, pageIndex: number): string;
+  /** Link to the next page of reviews; its absence marks the last page */
+  nextPageSelector: string;
+  parsePage(html: string): ScrapedReview[];
+};
+
+/**
+ * Normalise a displayed date ("3/14/2024", "Mar 14, 2024") to YYYY-MM-DD so
+ * ingestion can treat it as an absolute date. Returns null when unparseable.
+ */
+export function toIsoDate(text: string | null | undefined): string | null {
+  if (!text) return null;
+  const cleaned = text.replace(/^(?:written|date of visit|reviewed)\s*:?\s*/i, "").trim();
+  const time = Date.parse(cleaned);
+  if (Number.isNaN(time)) return null;
+  const d = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/**
+ * Build a ReviewSource for sites that render reviews as paginated server-side
+ * HTML. fetch walks the pages until the limit, a known review or the last page;
+ * parse runs the site's page parser over every captured page.
+ *
+ * Only a page without a next-page link counts as the end of the reviews. An
+ * empty page after the first, a page repeating the previous one or running
+ * out of MAX_PAGES stop the scrape without claiming every review was seen.
+ */
+export function createHtmlReviewSource(
+  config: HtmlReviewSourceConfig
+): ReviewSource<string[]> {
+  async function fetchPages(
+    page: Page,
+    url: string,
+    ctx: FetchContext
+  ): Promise<FetchResult<string[]>> {
+    const pages: string[] = [];
+    let collected = 0;
+    let stopReason: ScrapeStopReason = "max_pages";
+    let language: string | null = null;
+    let elementsFound = 0;
+    const strategies = new Set<string>();
+    let previousKeys = new Set<string>();
+
+    for (let pageIndex = 0; pageIndex < MAX_PAGES; pageIndex++) {
+      const pageUrl = config.pageUrl(url, pageIndex);
+      console.log(`Opening ${config.name} page ${pageIndex + 1}:`, pageUrl);
+
+      const response = await politeGoto(page, pageUrl, { waitUntil: "domcontentloaded" });
+      await page.waitForTimeout(2000);
+      if (pageIndex === 0 && (await acceptConsent(page, ctx.options.language))) {
+        ctx.onEvent({ type: "consent_handled" });
+      }
+      await assertPageReachable(page, response?.status() ?? null);
+      if (pageIndex === 0) {
+        language = await detectPageLanguage(page);
+        await ctx.artifacts.screenshot(page, "initial");
+      }
+
+      const html = await page.content();
+      const reviews = config.parsePage(html);
+      console.log(`Found ${reviews.length} reviews on ${config.name} page ${pageIndex + 1}`);
+
+      if (pageIndex === 0 || reviews.length === 0) {
+        await ctx.artifacts.html(`page-${pageIndex + 1}`, html);
+      }
+      if (reviews.length === 0) {
+        // A place without reviews, or a page that failed to load past the first
+        if (pageIndex === 0) await ctx.artifacts.screenshot(page, "no-reviews", true);
+        stopReason = pageIndex === 0 ? "end_of_feed" : "stalled";
+        break;
+      }
+
+      // Sites serve the last page again for page numbers past the end
+      const keys = new Set(reviews.map(reviewKey));
+      if ([...keys].every((key) => previousKeys.has(key))) {
+        stopReason = "stalled";
+        break;
+      }
+      previousKeys = keys;
+
+      elementsFound += reviews.length;
+      const $ = cheerio.load(html);
+      // The page parsers read JSON-LD first and fall back to the markup
+      strategies.add(reviewsFromJsonLd($).length > 0 ? "json-ld" : "markup");
+      pages.push(html);
+      collected += reviews.length;
+      ctx.onEvent({
+        type: "reviews_loaded",
+        loaded: Math.min(collected, ctx.options.limit),
+        limit: ctx.options.limit,
+      });
+
+      if (reviews.some((review) => ctx.knownKeys.has(reviewKey(review)))) {
+        stopReason = "known_review";
+        break;
+      }
+      if (collected >= ctx.options.limit) {
+        stopReason = "limit";
+        break;
+      }
+      if ($(config.nextPageSelector).length === 0) {
+        stopReason = "end_of_feed";
+        break;
+      }
+    }
+
+    return {
+      raw: pages,
+      stopReason,
+      language,
+      elementsFound,
+      selectorStrategy: strategies.size > 0 ? [...strategies].join(", ") : null,
+    };
+  }
+
+  return {
+    name: config.name,
+    matchesUrl: (url) => config.hosts.test(url),
+    fetch: fetchPages,
+    parse: (pages) => pages.flatMap((html) => config.parsePage(html)),
+  };
+}
@@ -0,0 +1,95 @@
+import type { CheerioAPI } from "cheerio";
+import type { ScrapedReview } from "./types";
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function hasType(obj: JsonObject, type: string): boolean {
+  const t = obj["@type"];
+  return t === type || (Array.isArray(t) && t.includes(type));
+}
+
+function asString(value: unknown): string | null {
+  if (typeof value === "string") return value.trim() || null;
+  if (typeof value === "number") return String(value);
+  return null;
+}
+
+function asNumber(value: unknown): number | null {
+  const n = typeof value === "number" ? value : parseFloat(String(value ?? "").replace(",", "."));
+  return Number.isFinite(n) ? n : null;
+}
+
+// Walk every nested object/array, collecting objects of the given @type
+function collectTyped(value: unknown, type: string, out: JsonObject[]) {
+  if (Array.isArray(value)) {
+    for (const v of value) collectTyped(v, type, out);
+    return;
+  }
+  if (!isObject(value)) return;
+
+  if (hasType(value, type)) out.push(value);
+  for (const [key, v] of Object.entries(value)) {
+    if (typeof v !== "object" || v === null) continue;
+
+    // Some sites nest reviews under "review" without their own @type
+    if (type === "Review" && key === "review") {
+      for (const r of Array.isArray(v) ? v : [v]) {
+        if (isObject(r) && !("@type" in r)) out.push(r);
+      }
+    }
+    collectTyped(v, type, out);
+  }
+}
+
+/**
+ * Every JSON-LD block on the page, parsed. Broken blocks are skipped.
+ */
+export function readJsonLd($: CheerioAPI): unknown[] {
+  const blocks: unknown[] = [];
+  $('script[type="application/ld+json"]').each((_i, el) => {
+    try {
+      blocks.push(JSON.parse($(el).text()));
+    } catch (e) {
+      // Some sites ship invalid JSON-LD; ignore that block
+    }
+  });
+  return blocks;
+}
+
+/**
+ * Reviews published as schema.org Review objects. Most review platforms embed
+ * these for search engines, which makes them more stable than their markup.
+ * Ratings on another scale (bestRating != 5) are rescaled to whole stars 1–5.
+ */
+export function reviewsFromJsonLd($: CheerioAPI): ScrapedReview[] {
+  const found: JsonObject[] = [];
+  collectTyped(readJsonLd($), "Review", found);
+
+  return found.map((review) => {
+    const ratingObj = isObject(review.reviewRating) ? review.reviewRating : {};
+    const ratingValue = asNumber(ratingObj.ratingValue);
+    const bestRating = asNumber(ratingObj.bestRating) ?? 5;
+    const rating =
+      ratingValue !== null && bestRating > 0
+        ? Math.round((ratingValue / bestRating) * 5)
+        : null;
+
+    const author = review.author;
+    const reviewer_name = isObject(author) ? asString(author.name) : asString(author);
+
+    return {
+      external_id: asString(review["@id"]),
+      rating,
+      review_text: asString(review.reviewBody) ?? asString(review.description),
+      review_date: asString(review.datePublished),
+      reviewer_name,
+      reviewer_review_count: null,
+      owner_response_text: null,
+      owner_response_date: null,
+    };
+  });
+}
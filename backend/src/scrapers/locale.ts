@@ -0,0 +1,122 @@
+import type { BrowserContextOptions, Page } from "playwright";
+
+/**
+ * UI language we ask review platforms to render in. Our clients are Belgian,
+ * so pages otherwise arrive in whatever language the server location implies.
+ */
+export type ScrapeLanguage = "en" | "nl" | "fr" | "de";
+
+export const SCRAPE_LANGUAGES: ScrapeLanguage[] = ["en", "nl", "fr", "de"];
+
+export const DEFAULT_SCRAPE_LANGUAGE: ScrapeLanguage = "en";
+
+// Browser locale per language; Belgian variants where our clients are
+const BROWSER_LOCALES: Record<ScrapeLanguage, string> = {
+  en: "en-GB",
+  nl: "nl-BE",
+  fr: "fr-BE",
+  de: "de-DE",
+};
+
+// Consent buttons as Google and the usual cookie banners label them,
+// most specific first ("Accept" would also match "Accept all")
+const CONSENT_BUTTON_LABELS: Record<ScrapeLanguage, string[]> = {
+  en: ["Accept all", "I agree", "Accept", "Agree", "Got it"],
+  nl: ["Alles accepteren", "Alle cookies accepteren", "Ik ga akkoord", "Accepteren", "Akkoord"],
+  fr: ["Tout accepter", "Accepter tout", "J'accepte", "Accepter"],
+  de: ["Alle akzeptieren", "Ich stimme zu", "Akzeptieren", "Zustimmen"],
+};
+
+// Language-independent consent buttons (OneTrust, Google's consent form)
+const CONSENT_BUTTON_SELECTORS = [
+  "#onetrust-accept-btn-handler",
+  'button[jsname="b3VHJd"]',
+  'form[action*="consent"] button[aria-label]',
+];
+
+export function isScrapeLanguage(value: unknown): value is ScrapeLanguage {
+  return typeof value === "string" && (SCRAPE_LANGUAGES as string[]).includes(value);
+}
+
+/**
+ * Browser context settings that make sites pick the language from the
+ * browser: navigator.language and the Accept-Language header.
+ */
+export function browserContextOptions(language: ScrapeLanguage): BrowserContextOptions {
+  const locale = BROWSER_LOCALES[language];
+  return {
+    locale,
+    extraHTTPHeaders: { "Accept-Language": `${locale},${language};q=0.9` },
+  };
+}
+
+/**
+ * Force the UI language through the URL (Google's hl=). Wins over the
+ * browser locale and over the language Google guesses from our IP.
+ */
+export function withLanguageParam(url: string, language: ScrapeLanguage, param = "hl"): string {
+  try {
+    const u = new URL(url);
+    u.searchParams.set(param, language);
+    return u.toString();
+  } catch (e) {
+    return url;
+  }
+}
+
+/**
+ * The language the page says it is in (<html lang="nl-BE"> -> "nl"),
+ * or null when it doesn't say.
+ */
+export async function detectPageLanguage(page: Page): Promise<string | null> {
+  try {
+    const lang = await page.evaluate(() => document.documentElement.lang);
+    return lang ? lang.toLowerCase().split("-")[0] ?? null : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+async function clickIfVisible(page: Page, selector: string): Promise<boolean> {
+  try {
+    const button = page.locator(selector).first();
+    if ((await button.count()) > 0 && (await button.isVisible())) {
+      await button.click();
+      await page.waitForTimeout(2000);
+      console.log(`Consent accepted with selector: ${selector}`);
+      return true;
+    }
+  } catch (e) {
+    // Detached or covered button; try the next candidate
+  }
+  return false;
+}
+
+/**
+ * Accept a cookie / consent dialog if one is shown. Buttons in the requested
+ * language are tried first, then the other languages, since a consent page
+ * does not always follow the forced UI language. Returns whether anything
+ * was clicked; a missing dialog is not an error.
+ */
+export async function acceptConsent(page: Page, language: ScrapeLanguage): Promise<boolean> {
+  console.log("Checking for cookie consent dialog...");
+
+  const languages = [language, ...SCRAPE_LANGUAGES.filter((l) => l !== language)];
+  const candidates = [
+    ...CONSENT_BUTTON_SELECTORS,
+    ...languages.flatMap((l) =>
+      CONSENT_BUTTON_LABELS[l].flatMap((label) => [
+        `button:has-text("${label}")`,
+        `[role="button"]:has-text("${label}")`,
+        `input[type="submit"][value="${label}"]`,
+      ])
+    ),
+  ];
+
+  for (const selector of candidates) {
+    if (await clickIfVisible(page, selector)) return true;
+  }
+
+  console.log("No cookie consent dialog found or could not click it - continuing anyway");
+  return false;
+}
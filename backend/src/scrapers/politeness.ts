@@ -0,0 +1,46 @@
+import type { Page, Response } from "playwright";
+
+/**
+ * Per-host spacing of page loads, so concurrent scrapes (and pagination within
+ * one scrape) don't hit the same site back to back. Every navigation to a host
+ * waits until SCRAPE_HOST_DELAY_MS have passed since the previous one to it.
+ */
+
+const HOST_DELAY_MS = Number(process.env.SCRAPE_HOST_DELAY_MS) || 5_000;
+
+// Next moment a navigation to the host may start
+const nextSlotByHost = new Map<string, number>();
+
+// google.com, google.be and maps.google.* are one site as far as rate limits go
+function hostKey(url: string): string {
+  const host = new URL(url).hostname.toLowerCase().replace(/^(?:www|maps)\./, "");
+  return /^google\.[a-z.]+$/.test(host) ? "google" : host;
+}
+
+/**
+ * Wait for our turn on the URL's host. Reserving the slot is synchronous, so
+ * concurrent callers queue up one delay apart.
+ */
+export async function waitForHostTurn(url: string): Promise<void> {
+  const key = hostKey(url);
+  const now = Date.now();
+  const slot = Math.max(now, nextSlotByHost.get(key) ?? 0);
+  nextSlotByHost.set(key, slot + HOST_DELAY_MS);
+
+  if (slot > now) {
+    console.log(`Waiting ${slot - now}ms before the next request to ${key}`);
+    await new Promise((resolve) => setTimeout(resolve, slot - now));
+  }
+}
+
+/**
+ * page.goto behind the host's politeness delay.
+ */
+export async function politeGoto(
+  page: Page,
+  url: string,
+  options: Parameters<Page["goto"]>[1] = {}
+): Promise<Response | null> {
+  await waitForHostTurn(url);
+  return page.goto(url, options);
+}
@@ -0,0 +1,367 @@
+import { withBrowserPage } from "../browserPool";
+import { pool } from "../db";
+import { loadKnownReviewKeys, reviewKey, upsertReviews } from "../ingest";
+import {
+  failScrapeRun,
+  finishScrapeRun,
+  startScrapeRun,
+  type ScrapeRunHandle,
+} from "../scrapeRuns";
+import { markRemovedReviews } from "../reviewChanges";
+import { saveCompetitorSnapshot } from "../snapshots";
+import { classifyScrapeError, ScrapeError, type ScrapeFailureReason } from "./errors";
+import { googleMapsSource } from "./googleMaps";
+import { browserContextOptions } from "./locale";
+import { trustpilotSource } from "./trustpilot";
+import { tripadvisorSource } from "./tripadvisor";
+import { yelpSource } from "./yelp";
+import type {
+  FetchResult,
+  ReviewSource,
+  ScrapedReview,
+  ScrapeEvent,
+  ScrapeOptions,
+  ScrapeResult,
+  ScrapeStopReason,
+} from "./types";
+
+// Attempts per source for transient failures (timeouts, network, browser crashes)
+const MAX_ATTEMPTS = Number(process.env.SCRAPE_MAX_ATTEMPTS) || 3;
+// First retry delay; doubled for every further attempt
+const RETRY_BASE_DELAY_MS = Number(process.env.SCRAPE_RETRY_BASE_MS) || 5_000;
+
+export const REVIEW_SOURCES: ReviewSource<unknown>[] = [
+  googleMapsSource,
+  yelpSource,
+  tripadvisorSource,
+  trustpilotSource,
+];
+
+export function findReviewSource(url: string): ReviewSource<unknown> | null {
+  return REVIEW_SOURCES.find((source) => source.matchesUrl(url)) ?? null;
+}
+
+/**
+ * Scrape one review URL for a competitor and upsert the results.
+ * The source is picked from the URL; fetch and parse are the source's own,
+ * deduplication, the incremental stop and the limit are applied here.
+ * Diagnostics and the outcome are recorded on `run`, progress goes to
+ * `onEvent`. Failures are thrown as a ScrapeError carrying the reason.
+ */
+export async function scrapeReviewSource(
+  competitorId: string,
+  url: string,
+  options: ScrapeOptions,
+  run: ScrapeRunHandle,
+  onEvent: (event: ScrapeEvent) => void = () => {}
+): Promise<ScrapeResult> {
+  const source = findReviewSource(url);
+  if (!source) {
+    throw new ScrapeError("unsupported_url", `No review source supports this URL: ${url}`);
+  }
+
+  let result: ScrapeResult;
+  try {
+    result = await fetchAndStore(source, competitorId, url, options, run, onEvent);
+  } catch (error) {
+    const failure = classifyScrapeError(error);
+    console.error(`Error scraping ${source.name} (${failure.reason}):`, error);
+    if (error instanceof Error) {
+      console.error("Error message:", error.message);
+      console.error("Error stack:", error.stack);
+    }
+    try {
+      await failScrapeRun(run, error, failure.reason);
+    } catch (dbError) {
+      console.error("✗ Error recording failed scrape run:", dbError);
+    }
+    throw failure;
+  }
+
+  try {
+    await finishScrapeRun(run, result);
+  } catch (dbError) {
+    console.error("✗ Error recording scrape run:", dbError);
+  }
+  return result;
+}
+
+async function fetchAndStore<TRaw>(
+  source: ReviewSource<TRaw>,
+  competitorId: string,
+  url: string,
+  options: ScrapeOptions,
+  run: ScrapeRunHandle,
+  onEvent: (event: ScrapeEvent) => void
+): Promise<ScrapeResult> {
+  // Only needed to know where an incremental scrape can stop
+  const knownKeys =
+    options.mode === "incremental"
+      ? await loadKnownReviewKeys(competitorId, source.name)
+      : new Set<string>();
+
+  const fetched = await fetchWithRetries(
+    source,
+    competitorId,
+    url,
+    options,
+    run,
+    knownKeys,
+    onEvent
+  );
+  run.diagnostics.elementsFound = fetched.elementsFound;
+  run.diagnostics.selectorStrategy = fetched.selectorStrategy;
+
+  // Parsing and storing don't need the browser, so its slot is already free
+  const parsed = source.parse(fetched.raw);
+  run.diagnostics.reviewsParsed = parsed.length;
+  onEvent({ type: "reviews_parsed", parsed: parsed.length, elements: fetched.elementsFound });
+  if (fetched.elementsFound > 0 && parsed.length === 0) {
+    throw new ScrapeError(
+      "parse_failed",
+      `Found ${fetched.elementsFound} review elements but could not parse any of them.`
+    );
+  }
+
+  let stopReason: ScrapeStopReason = fetched.stopReason;
+  const scraped: ScrapedReview[] = [];
+  const seenKeys = new Set<string>();
+
+  for (const review of parsed) {
+    if (scraped.length >= options.limit) {
+      stopReason = "limit";
+      break;
+    }
+
+    // Nested elements / repeated pages can yield the same review twice
+    const key = reviewKey(review);
+    if (seenKeys.has(key)) continue;
+    seenKeys.add(key);
+
+    // Sorted newest first, so everything after a stored review is stored too
+    if (knownKeys.has(key)) {
+      stopReason = "known_review";
+      break;
+    }
+
+    scraped.push(review);
+  }
+
+  const scrapedAt = new Date();
+
+  // Official place figures, when the source shows them
+  const place = source.parsePlace ? source.parsePlace(fetched.raw) : null;
+  if (place) {
+    try {
+      await saveCompetitorSnapshot(competitorId, source.name, place, scrapedAt);
+    } catch (dbError) {
+      console.error("✗ Error saving competitor snapshot:", dbError);
+    }
+  }
+
+  console.log(`Scraped ${scraped.length} ${source.name} reviews, upserting into DB...`);
+  onEvent({ type: "inserting", reviews: scraped.length });
+
+  // Relative dates ("3 months ago") are resolved against the scrape time on ingest
+  const result = await upsertReviews(
+    competitorId,
+    source.name,
+    scraped,
+    scrapedAt,
+    fetched.language
+  );
+
+  // Only a full scrape that read the whole feed shows every review still online;
+  // a review element that failed to parse would look removed, so all must parse
+  let removed = 0;
+  if (options.mode === "full" && stopReason === "end_of_feed") {
+    if (parsed.length !== fetched.elementsFound) {
+      console.log(
+        `Not checking for removed ${source.name} reviews: parsed ${parsed.length} of ${fetched.elementsFound} review elements`
+      );
+    } else {
+      try {
+        removed = await markRemovedReviews(
+          competitorId,
+          source.name,
+          new Set(parsed.map(reviewKey)),
+          scrapedAt
+        );
+      } catch (dbError) {
+        console.error("✗ Error marking removed reviews:", dbError);
+      }
+    }
+  }
+
+  console.log(
+    `Successfully scraped ${scraped.length} ${source.name} reviews (${options.mode}, language: ${fetched.language ?? "unknown"}, stopped: ${stopReason})`
+  );
+
+  return {
+    ...result,
+    source: source.name,
+    scraped: scraped.length,
+    stop_reason: stopReason,
+    place,
+    language: fetched.language,
+    removed,
+    run_id: run.id,
+  };
+}
+
+/**
+ * Run the source's fetch in a fresh browser page, retrying transient failures
+ * with exponential backoff. Other failures are thrown on the first attempt.
+ */
+async function fetchWithRetries<TRaw>(
+  source: ReviewSource<TRaw>,
+  competitorId: string,
+  url: string,
+  options: ScrapeOptions,
+  run: ScrapeRunHandle,
+  knownKeys: Set<string>,
+  onEvent: (event: ScrapeEvent) => void
+): Promise<FetchResult<TRaw>> {
+  for (let attempt = 1; ; attempt++) {
+    run.attempts = attempt;
+    try {
+      // Locale and Accept-Language steer sites that don't take a language parameter
+      return await withBrowserPage(browserContextOptions(options.language), async (page) => {
+        try {
+          return await source.fetch(page, url, {
+            competitorId,
+            options,
+            knownKeys,
+            artifacts: run.artifacts,
+            onEvent,
+          });
+        } catch (error) {
+          // What the page looked like when it went wrong
+          await run.artifacts.screenshot(page, "error", true);
+          await run.artifacts.html("error", await page.content().catch(() => ""));
+          throw error;
+        }
+      });
+    } catch (error) {
+      const failure = classifyScrapeError(error);
+      if (!failure.retryable || attempt >= MAX_ATTEMPTS) throw error;
+
+      // Jitter keeps parallel scrapes from retrying in lockstep
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * RETRY_BASE_DELAY_MS;
+      console.log(
+        `${source.name} attempt ${attempt}/${MAX_ATTEMPTS} failed (${failure.reason}), retrying in ${Math.round(delay)}ms`
+      );
+      onEvent({ type: "retrying", attempt, reason: failure.reason, delay_ms: Math.round(delay) });
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+export type SourceScrapeOutcome =
+  | (ScrapeResult & { url: string })
+  | {
+      source: string | null;
+      url: string;
+      error: string;
+      reason: ScrapeFailureReason;
+      run_id: string | null;
+    };
+
+export type CompetitorScrapeResult = {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  edited: number;
+  removed: number;
+  scraped: number;
+  sources: SourceScrapeOutcome[];
+};
+
+/**
+ * Progress of a competitor scrape: each source starting and finishing, and
+ * the source's own events in between.
+ */
+export type CompetitorScrapeEvent = (
+  | { type: "source_started" }
+  | { type: "source_finished"; inserted: number; reason: ScrapeFailureReason | null }
+  | ScrapeEvent
+) & { source: string | null; url: string; done: number; total: number };
+
+/**
+ * Every review URL of a competitor: its Google Maps URL first, then the extra
+ * sources in the order they were added.
+ */
+export async function loadCompetitorReviewUrls(competitorId: string): Promise<string[]> {
+  const { rows } = await pool.query<{ url: string }>(
+    `
+    SELECT google_maps_url AS url, 0 AS position, NULL::timestamptz AS created_at
+    FROM public.competitors
+    WHERE id = $1 AND google_maps_url IS NOT NULL
+    UNION ALL
+    SELECT url, 1, created_at
+    FROM public.competitor_sources
+    WHERE competitor_id = $1
+    ORDER BY position, created_at
+    `,
+    [competitorId]
+  );
+  return rows.map((row) => row.url);
+}
+
+/**
+ * Scrape every review URL linked to a competitor, one after the other.
+ * A failing source is reported in its entry and does not stop the others.
+ * `onEvent` follows the progress, tagged with the source and how many are done.
+ */
+export async function scrapeCompetitorSources(
+  competitorId: string,
+  urls: string[],
+  options: ScrapeOptions,
+  onEvent: (event: CompetitorScrapeEvent) => void = () => {}
+): Promise<CompetitorScrapeResult> {
+  const totals: CompetitorScrapeResult = {
+    inserted: 0,
+    updated: 0,
+    unchanged: 0,
+    edited: 0,
+    removed: 0,
+    scraped: 0,
+    sources: [],
+  };
+
+  for (const [index, url] of urls.entries()) {
+    const source = findReviewSource(url);
+    const position = { source: source?.name ?? null, url, done: index, total: urls.length };
+    onEvent({ type: "source_started", ...position });
+    let run: ScrapeRunHandle | null = null;
+    try {
+      if (!source) {
+        throw new ScrapeError("unsupported_url", `No review source supports this URL: ${url}`);
+      }
+      run = await startScrapeRun(competitorId, source.name, url, options);
+      const result = await scrapeReviewSource(competitorId, url, options, run, (event) =>
+        onEvent({ ...event, ...position })
+      );
+      totals.inserted += result.inserted;
+      totals.updated += result.updated;
+      totals.unchanged += result.unchanged;
+      totals.edited += result.edited;
+      totals.removed += result.removed;
+      totals.scraped += result.scraped;
+      totals.sources.push({ ...result, url });
+      onEvent({ type: "source_finished", inserted: result.inserted, reason: null, ...position });
+    } catch (error) {
+      const failure = classifyScrapeError(error);
+      totals.sources.push({
+        source: source?.name ?? null,
+        url,
+        error: failure.message || "Failed to scrape source",
+        reason: failure.reason,
+        run_id: run?.id ?? null,
+      });
+      onEvent({ type: "source_finished", inserted: 0, reason: failure.reason, ...position });
+    }
+  }
+
+  return totals;
+}
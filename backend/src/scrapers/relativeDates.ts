@@ -0,0 +1,215 @@
+export type DatePrecision = "exact" | "minute" | "hour" | "day" | "week" | "month" | "year";
+
+export type ResolvedReviewDate = {
+  date: Date; // best estimate
+  precision: DatePrecision;
+  earliest: Date; // uncertainty window
+  latest: Date;
+  edited: boolean;
+};
+
+type Unit = Exclude<DatePrecision, "exact">;
+
+// Word -> unit for every language we scrape in
+const UNIT_WORDS: Record<string, Unit> = {
+  // English
+  minute: "minute",
+  minutes: "minute",
+  min: "minute",
+  mins: "minute",
+  hour: "hour",
+  hours: "hour",
+  day: "day",
+  days: "day",
+  week: "week",
+  weeks: "week",
+  month: "month",
+  months: "month",
+  year: "year",
+  years: "year",
+  // Dutch
+  minuut: "minute",
+  minuten: "minute",
+  uur: "hour",
+  uren: "hour",
+  dag: "day",
+  dagen: "day",
+  weken: "week",
+  maand: "month",
+  maanden: "month",
+  jaar: "year",
+  // French ("il y a 3 mois")
+  heure: "hour",
+  heures: "hour",
+  jour: "day",
+  jours: "day",
+  semaine: "week",
+  semaines: "week",
+  mois: "month",
+  an: "year",
+  ans: "year",
+  // German ("vor 3 Monaten"); Minute/Minuten are shared with the above
+  stunde: "hour",
+  stunden: "hour",
+  tag: "day",
+  tagen: "day",
+  woche: "week",
+  wochen: "week",
+  monat: "month",
+  monaten: "month",
+  jahr: "year",
+  jahren: "year",
+};
+
+// Words used instead of a digit for "one"
+const ONE_WORDS = new Set(["a", "an", "one", "een", "één", "un", "une", "ein", "eine", "einem", "einer"]);
+
+const EDITED_WORDS = "edited|bewerkt|modifié|bearbeitet";
+const EDITED_PREFIX = new RegExp(`^(?:${EDITED_WORDS})\\s*:?\\s*`, "i");
+const EDITED_ANYWHERE = new RegExp(`(?:^|\\s)(?:${EDITED_WORDS})(?![a-z])`, "i");
+
+const AMOUNT = `\\d+|${[...ONE_WORDS].join("|")}`;
+// Longest first so "minuten" is not matched as "minute"
+const UNIT = Object.keys(UNIT_WORDS)
+  .sort((a, b) => b.length - a.length)
+  .join("|");
+const UNIT_END = "(?![a-zäöüéè])";
+
+// "3 months ago" / "2 jaar geleden", "il y a 3 mois", "vor 3 Monaten"
+const PHRASE_SOURCES = [
+  `(${AMOUNT})\\s+(${UNIT})\\s+(?:ago|geleden)${UNIT_END}`,
+  `il y a\\s+(${AMOUNT})\\s+(${UNIT})${UNIT_END}`,
+  `vor\\s+(${AMOUNT})\\s+(${UNIT})${UNIT_END}`,
+];
+
+/**
+ * Matches a relative date phrase anywhere in a line of text, e.g.
+ * "3 months ago", "a week ago", "2 jaar geleden", "een maand geleden",
+ * "il y a 2 semaines", "vor einem Monat". Used by the scrapers to pick the
+ * date line out of a review's text. French "hier" is left out on purpose:
+ * it is also a common Dutch word ("here").
+ */
+export const RELATIVE_DATE_PATTERN = new RegExp(
+  [
+    ...PHRASE_SOURCES.map((p) => `(?:(?:${EDITED_WORDS})\\s*:?\\s*)?(?<![a-zäöüé])${p}`),
+    "\\b(?:yesterday|gisteren|gestern)\\b",
+  ].join("|"),
+  "i"
+);
+
+const RELATIVE_PHRASES = PHRASE_SOURCES.map((p) => new RegExp(`(?:^|\\s)${p}`, "i"));
+
+const YESTERDAY_WORDS = ["yesterday", "gisteren", "hier", "gestern"];
+const TODAY_WORDS = ["today", "vandaag", "aujourd'hui", "heute", "just now", "zojuist", "à l'instant", "gerade eben"];
+
+function subtractUnits(from: Date, unit: Unit, amount: number): Date {
+  const d = new Date(from.getTime());
+  switch (unit) {
+    case "minute":
+      d.setUTCMinutes(d.getUTCMinutes() - amount);
+      break;
+    case "hour":
+      d.setUTCHours(d.getUTCHours() - amount);
+      break;
+    case "day":
+      d.setUTCDate(d.getUTCDate() - amount);
+      break;
+    case "week":
+      d.setUTCDate(d.getUTCDate() - amount * 7);
+      break;
+    case "month":
+      d.setUTCMonth(d.getUTCMonth() - amount);
+      break;
+    case "year":
+      d.setUTCFullYear(d.getUTCFullYear() - amount);
+      break;
+  }
+  return d;
+}
+
+function startOfUtcDay(d: Date): Date {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+}
+
+/**
+ * Turn a scraped review date into a timestamp.
+ *
+ * Platforms show relative phrases ("3 months ago", "2 jaar geleden",
+ * "il y a 2 semaines", "vor einem Monat", "Edited 5 days ago") that only mean something relative to when we scraped,
+ * so they are resolved against `scrapedAt`. Because "3 months ago" is rounded
+ * by the platform, the result carries a window of half a unit either side of
+ * the estimate. Absolute dates (ISO strings from other sources) pass through
+ * with precision "exact" or "day".
+ *
+ * Returns null when the string is not recognised.
+ */
+export function resolveReviewDate(
+  raw: string | null,
+  scrapedAt: Date
+): ResolvedReviewDate | null {
+  if (!raw) return null;
+
+  let text = raw.trim().toLowerCase().replace(/\s+/g, " ");
+  const edited = EDITED_ANYWHERE.test(text);
+  text = text.replace(EDITED_PREFIX, "");
+
+  // Absolute dates, e.g. "2024-03-18" or "2024-03-18T10:22:00Z"
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) {
+    const date = new Date(raw.trim().replace(EDITED_PREFIX, ""));
+    if (Number.isNaN(date.getTime())) return null;
+
+    if (text.length <= 10) {
+      const end = new Date(date.getTime());
+      end.setUTCDate(end.getUTCDate() + 1);
+      return { date, precision: "day", earliest: date, latest: end, edited };
+    }
+    return { date, precision: "exact", earliest: date, latest: date, edited };
+  }
+
+  if (YESTERDAY_WORDS.includes(text)) {
+    const date = subtractUnits(scrapedAt, "day", 1);
+    return {
+      date,
+      precision: "day",
+      earliest: startOfUtcDay(date),
+      latest: startOfUtcDay(scrapedAt),
+      edited,
+    };
+  }
+
+  if (TODAY_WORDS.includes(text)) {
+    return {
+      date: scrapedAt,
+      precision: "day",
+      earliest: startOfUtcDay(scrapedAt),
+      latest: scrapedAt,
+      edited,
+    };
+  }
+
+  let match: RegExpMatchArray | null = null;
+  for (const phrase of RELATIVE_PHRASES) {
+    match = text.match(phrase);
+    if (match) break;
+  }
+  if (!match || !match[1] || !match[2]) return null;
+
+  const unit = UNIT_WORDS[match[2]];
+  if (!unit) return null;
+
+  const amount = ONE_WORDS.has(match[1]) ? 1 : parseInt(match[1], 10);
+  if (!Number.isFinite(amount)) return null;
+
+  // Half a unit either side, never later than the scrape itself
+  const date = subtractUnits(scrapedAt, unit, amount);
+  const earliest = new Date(
+    (date.getTime() + subtractUnits(date, unit, 1).getTime()) / 2
+  );
+  const latestCandidate = new Date(
+    (date.getTime() + subtractUnits(date, unit, -1).getTime()) / 2
+  );
+  const latest =
+    latestCandidate.getTime() > scrapedAt.getTime() ? scrapedAt : latestCandidate;
+
+  return { date, precision: unit, earliest, latest, edited };
+}
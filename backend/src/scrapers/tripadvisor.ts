@@ -0,0 +1,72 @@
+import * as cheerio from "cheerio";
+import { createHtmlReviewSource, toIsoDate } from "./htmlSource";
+import { reviewsFromJsonLd } from "./jsonLd";
+import type { ScrapedReview } from "./types";
+
+function parseTripadvisorPage(html: string): ScrapedReview[] {
+  const $ = cheerio.load(html);
+
+  const fromJsonLd = reviewsFromJsonLd($);
+  if (fromJsonLd.length > 0) return fromJsonLd;
+
+  // Fallback: review cards in the markup (new and legacy layouts)
+  const reviews: ScrapedReview[] = [];
+  $("div[data-automation='reviewCard'], div.review-container").each((_i, el) => {
+    const card = $(el);
+
+    // "5.0 of 5 bubbles" (new) or class "bubble_50" (legacy)
+    let rating: number | null = null;
+    const bubbleTitle = card.find("svg title").first().text();
+    const titleMatch = bubbleTitle.match(/(\d+(?:[.,]\d+)?)\s*(?:of|van)\s*5/i);
+    if (titleMatch?.[1]) {
+      rating = parseFloat(titleMatch[1].replace(",", "."));
+    } else {
+      const bubbleClass = card.find("span.ui_bubble_rating").attr("class") || "";
+      const classMatch = bubbleClass.match(/bubble_(\d)(\d)/);
+      if (classMatch?.[1] && classMatch[2]) {
+        rating = parseFloat(`${classMatch[1]}.${classMatch[2]}`);
+      }
+    }
+
+    const reviewText = card
+      .find("[data-automation*='reviewText'] span, q.QewHA span, p.partial_entry")
+      .first()
+      .text()
+      .trim();
+
+    const dateTitle = card.find("span.ratingDate").attr("title");
+    const dateText = dateTitle || card.find("div.RpeCd, div[class*='ratingDate']").first().text();
+
+    reviews.push({
+      external_id:
+        card.attr("data-reviewid") ?? card.find("[data-reviewid]").attr("data-reviewid") ?? null,
+      rating,
+      review_text: reviewText || null,
+      review_date: toIsoDate(dateText),
+      reviewer_name:
+        card.find("a[href*='/Profile/'], .info_text div").first().text().trim() || null,
+      reviewer_review_count: null,
+      owner_response_text: null,
+      owner_response_date: null,
+    });
+  });
+
+  return reviews;
+}
+
+/**
+ * Tripadvisor listings, e.g.
+ * https://www.tripadvisor.com/Restaurant_Review-g188644-d123-Reviews-Name-Brussels.html
+ * Pages are addressed with "-Reviews-or15-" (15 per page for restaurants, 10 otherwise).
+ */
+export const tripadvisorSource = createHtmlReviewSource({
+  name: "tripadvisor",
+  hosts: /^https?:\/\/(?:www\.)?tripadvisor\.[a-z.]+\/[A-Za-z_]+_Review-/i,
+  pageUrl(url, pageIndex) {
+    if (pageIndex === 0) return url;
+    const pageSize = url.includes("Restaurant_Review") ? 15 : 10;
+    return url.replace(/-Reviews-(?:or\d+-)?/, `-Reviews-or${pageIndex * pageSize}-`);
+  },
+  nextPageSelector: 'a.nav.next[href], a[aria-label="Next page"][href], link[rel="next"]',
+  parsePage: parseTripadvisorPage,
+});
@@ -0,0 +1,60 @@
+import * as cheerio from "cheerio";
+import { createHtmlReviewSource } from "./htmlSource";
+import { reviewsFromJsonLd } from "./jsonLd";
+import type { ScrapedReview } from "./types";
+
+function parseTrustpilotPage(html: string): ScrapedReview[] {
+  const $ = cheerio.load(html);
+
+  const fromJsonLd = reviewsFromJsonLd($);
+  if (fromJsonLd.length > 0) return fromJsonLd;
+
+  // Fallback: review cards in the markup
+  const reviews: ScrapedReview[] = [];
+  $("article[data-service-review-card-paper], article[class*='reviewCard']").each((_i, el) => {
+    const card = $(el);
+
+    const ratingAttr = card.find("[data-service-review-rating]").attr("data-service-review-rating");
+    const ratingAlt = card.find("img[alt*='Rated']").attr("alt");
+    const ratingMatch = (ratingAttr || ratingAlt || "").match(/(\d+(?:\.\d+)?)/);
+
+    const title = card.find("[data-service-review-title-typography]").text().trim();
+    const body = card.find("[data-service-review-text-typography]").text().trim();
+    const reviewText = [title, body].filter(Boolean).join(". ");
+
+    const href = card.find("a[href*='/reviews/']").attr("href") || "";
+    const idMatch = href.match(/\/reviews\/([a-f0-9]+)/i);
+
+    reviews.push({
+      external_id: idMatch?.[1] ?? null,
+      rating: ratingMatch?.[1] ? parseFloat(ratingMatch[1]) : null,
+      review_text: reviewText || null,
+      review_date: card.find("time[datetime]").attr("datetime") ?? null,
+      reviewer_name: card.find("[data-consumer-name-typography]").text().trim() || null,
+      reviewer_review_count: null,
+      owner_response_text: null,
+      owner_response_date: null,
+    });
+  });
+
+  return reviews;
+}
+
+/**
+ * Trustpilot company pages, e.g. https://www.trustpilot.com/review/example.com
+ * 20 reviews per page, ?page=N&sort=recency.
+ */
+export const trustpilotSource = createHtmlReviewSource({
+  name: "trustpilot",
+  hosts: /^https?:\/\/(?:[a-z-]+\.)?trustpilot\.com\/review\//i,
+  pageUrl(url, pageIndex) {
+    const u = new URL(url);
+    u.searchParams.set("sort", "recency");
+    if (pageIndex > 0) {
+      u.searchParams.set("page", String(pageIndex + 1));
+    }
+    return u.toString();
+  },
+  nextPageSelector: 'a[name="pagination-button-next"][href], link[rel="next"]',
+  parsePage: parseTrustpilotPage,
+});
@@ -0,0 +1,128 @@
+import type { Page } from "playwright";
+import type { IngestResult } from "../ingest";
+import type { RunArtifacts } from "../scrapeRuns";
+import type { ScrapeFailureReason } from "./errors";
+import type { GoogleMapsPlaceRef } from "./googleMapsUrl";
+import type { ScrapeLanguage } from "./locale";
+
+/**
+ * A review as scraped from any platform, before it is stored.
+ * review_date is kept as shown on the platform ("3 months ago", ISO date, ...),
+ * and so is owner_response_date.
+ */
+export type ScrapedReview = {
+  external_id: string | null;
+  rating: number | null;
+  review_text: string | null;
+  review_date: string | null;
+  reviewer_name: string | null;
+  reviewer_review_count: number | null; // reviews the reviewer has written, where the platform shows it
+  owner_response_text: string | null;
+  owner_response_date: string | null;
+};
+
+/**
+ * Header data of a place as published by the platform (official figures,
+ * as opposed to what we compute from the reviews we scraped).
+ */
+export type PlaceMetadata = {
+  name: string | null;
+  rating: number | null;
+  review_count: number | null;
+  price_level: string | null;
+  categories: string[];
+  address: string | null;
+  phone: string | null;
+  website: string | null;
+  opening_hours: Record<string, string> | null; // day -> hours as displayed
+};
+
+/**
+ * A place offered as a match for a search ("name + city"), to pick from
+ * before it is stored as a competitor.
+ */
+export type PlaceCandidate = GoogleMapsPlaceRef & {
+  rating: number | null;
+  review_count: number | null;
+  category: string | null;
+  address: string | null;
+};
+
+/**
+ * incremental: newest first, stop at the first review we already stored
+ * full: newest first, keep going until the limit or the end of the feed
+ */
+export type ScrapeMode = "incremental" | "full";
+
+export const SCRAPE_MODES: ScrapeMode[] = ["incremental", "full"];
+
+export type ScrapeOptions = {
+  mode: ScrapeMode;
+  limit: number;
+  language: ScrapeLanguage; // UI language to request from the platform
+};
+
+/**
+ * Why a scrape stopped collecting. Only "end_of_feed" means every review
+ * still online was seen; "stalled" (the feed stopped growing before its end),
+ * "no_container" (no review panel to scroll) and "max_pages" (the page cap was
+ * reached before the last page) don't.
+ */
+export type ScrapeStopReason =
+  | "limit"
+  | "known_review"
+  | "end_of_feed"
+  | "stalled"
+  | "no_container"
+  | "max_pages";
+
+export type ScrapeResult = IngestResult & {
+  source: string;
+  scraped: number;
+  stop_reason: ScrapeStopReason;
+  place: PlaceMetadata | null;
+  language: string | null; // language the page was actually served in
+  removed: number; // stored reviews no longer shown, only checked on complete full scrapes
+  run_id: string;
+};
+
+/**
+ * Progress of a scrape as it happens, streamed to clients as job events.
+ */
+export type ScrapeEvent =
+  | { type: "consent_handled" }
+  | { type: "reviews_tab_opened" }
+  | { type: "reviews_loaded"; loaded: number; limit: number } // while scrolling / paging
+  | { type: "reviews_parsed"; parsed: number; elements: number }
+  | { type: "inserting"; reviews: number }
+  | { type: "retrying"; attempt: number; reason: ScrapeFailureReason; delay_ms: number };
+
+export type FetchContext = {
+  competitorId: string;
+  options: ScrapeOptions;
+  knownKeys: Set<string>; // review keys already stored for this source
+  artifacts: RunArtifacts; // screenshots / HTML dumps of this scrape run
+  onEvent: (event: ScrapeEvent) => void;
+};
+
+export type FetchResult<TRaw> = {
+  raw: TRaw;
+  stopReason: ScrapeStopReason;
+  language: string | null; // from the page itself, null when it doesn't say
+  elementsFound: number; // review elements seen on the page(s)
+  selectorStrategy: string | null; // which of the source's selectors matched
+};
+
+/**
+ * A review platform. Navigation (fetch) is kept apart from extraction (parse)
+ * so the runner can treat every platform the same way.
+ */
+export interface ReviewSource<TRaw = unknown> {
+  /** Stored in reviews.source */
+  readonly name: string;
+  matchesUrl(url: string): boolean;
+  fetch(page: Page, url: string, ctx: FetchContext): Promise<FetchResult<TRaw>>;
+  parse(raw: TRaw): ScrapedReview[];
+  /** Sources that show place header data can parse it from the same capture */
+  parsePlace?(raw: TRaw): PlaceMetadata | null;
+}
@@ -0,0 +1,61 @@
+import * as cheerio from "cheerio";
+import { createHtmlReviewSource, toIsoDate } from "./htmlSource";
+import { reviewsFromJsonLd } from "./jsonLd";
+import type { ScrapedReview } from "./types";
+
+const YELP_PAGE_SIZE = 10;
+
+function parseYelpPage(html: string): ScrapedReview[] {
+  const $ = cheerio.load(html);
+
+  const fromJsonLd = reviewsFromJsonLd($);
+  if (fromJsonLd.length > 0) return fromJsonLd;
+
+  // Fallback: review list items in the markup
+  const reviews: ScrapedReview[] = [];
+  $("#reviews li, section[aria-label*='Recommended Reviews'] li").each((_i, el) => {
+    const item = $(el);
+
+    const ratingLabel = item.find("[aria-label*='star rating']").first().attr("aria-label") || "";
+    const ratingMatch = ratingLabel.match(/(\d+(?:\.\d+)?)\s*star/i);
+    if (!ratingMatch) return; // not a review (photos, pagination, ...)
+
+    const dateText = item
+      .find("span")
+      .toArray()
+      .map((span) => $(span).text().trim())
+      .find((text) => /^\d{1,2}\/\d{1,2}\/\d{4}$|^[A-Z][a-z]{2} \d{1,2}, \d{4}$/.test(text));
+
+    reviews.push({
+      external_id: item.find("[data-review-id]").attr("data-review-id") ?? null,
+      rating: ratingMatch[1] ? parseFloat(ratingMatch[1]) : null,
+      review_text: item.find("p[class*='comment'] span, span[lang]").first().text().trim() || null,
+      review_date: toIsoDate(dateText),
+      reviewer_name: item.find("a[href*='/user_details']").first().text().trim() || null,
+      reviewer_review_count: null,
+      owner_response_text: null,
+      owner_response_date: null,
+    });
+  });
+
+  return reviews;
+}
+
+/**
+ * Yelp business pages, e.g. https://www.yelp.com/biz/some-restaurant-brussel
+ * 10 reviews per page, ?start=N&sort_by=date_desc.
+ */
+export const yelpSource = createHtmlReviewSource({
+  name: "yelp",
+  hosts: /^https?:\/\/(?:[a-z]+\.)?yelp\.[a-z.]+\/biz\//i,
+  pageUrl(url, pageIndex) {
+    const u = new URL(url);
+    u.searchParams.set("sort_by", "date_desc");
+    if (pageIndex > 0) {
+      u.searchParams.set("start", String(pageIndex * YELP_PAGE_SIZE));
+    }
+    return u.toString();
+  },
+  nextPageSelector: 'a.next-link[href], a[aria-label="Next"][href], link[rel="next"]',
+  parsePage: parseYelpPage,
+});
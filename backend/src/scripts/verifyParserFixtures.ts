@@ -0,0 +1,66 @@
+/**
+ * Run the HTML parsers against saved page snapshots in backend/fixtures and
+ * compare with the expected output next to each snapshot.
+ *
+ *   npm run verify:fixtures            # compare, exit 1 on any mismatch
+ *   npm run verify:fixtures -- --update  # rewrite *.expected.json
+ *
+ * Fixture layout: fixtures/<parser>/<case>.html + <case>.expected.json
+ */
+import fs from "fs";
+import path from "path";
+import { isDeepStrictEqual } from "util";
+import {
+  parseGoogleMapsPlaceHtml,
+  parseGoogleMapsReviewsHtml,
+  parseGoogleMapsSearchHtml,
+} from "../scrapers/googleMapsParser";
+
+const PARSERS: Record<string, (html: string) => unknown> = {
+  "google-maps/reviews": parseGoogleMapsReviewsHtml,
+  "google-maps/place": parseGoogleMapsPlaceHtml,
+  "google-maps/search": parseGoogleMapsSearchHtml,
+};
+
+const fixturesDir = path.join(__dirname, "..", "..", "fixtures");
+const update = process.argv.includes("--update");
+
+let failures = 0;
+let checked = 0;
+
+for (const [parserDir, parse] of Object.entries(PARSERS)) {
+  const dir = path.join(fixturesDir, parserDir);
+  if (!fs.existsSync(dir)) continue;
+
+  for (const file of fs.readdirSync(dir).filter((f) => f.endsWith(".html")).sort()) {
+    const htmlPath = path.join(dir, file);
+    const expectedPath = htmlPath.replace(/\.html$/, ".expected.json");
+    const actual = JSON.parse(JSON.stringify(parse(fs.readFileSync(htmlPath, "utf8"))));
+    checked++;
+
+    if (update) {
+      fs.writeFileSync(expectedPath, JSON.stringify(actual, null, 2) + "\n");
+      console.log(`updated  ${parserDir}/${file}`);
+      continue;
+    }
+
+    if (!fs.existsSync(expectedPath)) {
+      failures++;
+      console.log(`MISSING  ${parserDir}/${file} (run with --update to create it)`);
+      continue;
+    }
+
+    const expected = JSON.parse(fs.readFileSync(expectedPath, "utf8"));
+    if (isDeepStrictEqual(actual, expected)) {
+      console.log(`ok       ${parserDir}/${file}`);
+    } else {
+      failures++;
+      console.log(`FAIL     ${parserDir}/${file}`);
+      console.log("  expected:", JSON.stringify(expected, null, 2).replace(/\n/g, "\n  "));
+      console.log("  actual:  ", JSON.stringify(actual, null, 2).replace(/\n/g, "\n  "));
+    }
+  }
+}
+
+console.log(`\n${checked - failures}/${checked} fixtures passed`);
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,52 @@
+import Sentiment from "sentiment";
+import {
+  detectLanguage,
+  LEXICONS,
+  REVIEW_LANGUAGES,
+  tokenizeWords,
+  type ReviewLanguage,
+} from "./languages";
+
+const sentiment = new Sentiment();
+
+// English uses the package's own AFINN list and negation handling
+for (const language of REVIEW_LANGUAGES) {
+  const lexicon = LEXICONS[language];
+  if (!lexicon.sentiment) continue;
+
+  const negators = new Set(lexicon.negators);
+  sentiment.registerLanguage(language, {
+    // The package copies emoji scores into the labels, so give it its own object
+    labels: { ...lexicon.sentiment },
+    scoringStrategy: {
+      apply(tokens, cursor, tokenScore) {
+        const previous = tokens[cursor - 1];
+        return previous !== undefined && negators.has(previous) ? -tokenScore : tokenScore;
+      },
+    },
+  });
+}
+
+export type SentimentLabel = "positive" | "neutral" | "negative";
+
+/**
+ * Sentiment of a (cleaned) review text: the AFINN-scale score and whether it
+ * counts as positive (> 1), negative (< -1) or neutral. The text is scored
+ * with the lexicon of its language; when that can't be detected, with the
+ * lexicon that recognises the most words in it.
+ */
+export function scoreSentiment(
+  text: string,
+  language: ReviewLanguage | null = detectLanguage(text)
+): { label: SentimentLabel; score: number } {
+  const words = tokenizeWords(text).join(" ");
+
+  let score: number;
+  if (language) {
+    score = sentiment.analyze(words, { language }).score;
+  } else {
+    const results = REVIEW_LANGUAGES.map((l) => sentiment.analyze(words, { language: l }));
+    score = results.reduce((best, r) => (r.words.length > best.words.length ? r : best)).score;
+  }
+  return { label: score > 1 ? "positive" : score < -1 ? "negative" : "neutral", score };
+}
@@ -0,0 +1,62 @@
+import { pool } from "./db";
+import type { PlaceMetadata } from "./scrapers/types";
+
+export type CompetitorSnapshot = PlaceMetadata & {
+  id: string;
+  competitor_id: string;
+  source: string;
+  scraped_at: string;
+};
+
+/**
+ * Store the place header data seen during a scrape. Every scrape adds a row,
+ * so the official rating and review count can be followed over time.
+ */
+export async function saveCompetitorSnapshot(
+  competitorId: string,
+  source: string,
+  place: PlaceMetadata,
+  scrapedAt: Date = new Date()
+) {
+  await pool.query(
+    `
+    INSERT INTO public.competitor_snapshots (
+      competitor_id, source, scraped_at, name, rating, review_count, price_level,
+      categories, address, phone, website, opening_hours
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+    `,
+    [
+      competitorId,
+      source,
+      scrapedAt,
+      place.name,
+      place.rating,
+      place.review_count,
+      place.price_level,
+      place.categories,
+      place.address,
+      place.phone,
+      place.website,
+      place.opening_hours ? JSON.stringify(place.opening_hours) : null,
+    ]
+  );
+}
+
+export async function getLatestCompetitorSnapshot(
+  competitorId: string,
+  source = "google_maps"
+): Promise<CompetitorSnapshot | null> {
+  const { rows } = await pool.query<CompetitorSnapshot>(
+    `
+    SELECT id, competitor_id, source, scraped_at, name, rating::float AS rating, review_count,
+           price_level, categories, address, phone, website, opening_hours
+    FROM public.competitor_snapshots
+    WHERE competitor_id = $1 AND source = $2
+    ORDER BY scraped_at DESC
+    LIMIT 1
+    `,
+    [competitorId, source]
+  );
+  return rows[0] ?? null;
+}
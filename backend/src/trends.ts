@@ -0,0 +1,230 @@
+import { pool } from "./db";
+import { cleanReviewText, filterConditions, tokenize, type AnalysisFilters } from "./analysis";
+import { detectLanguage } from "./languages";
+import { scoreSentiment, type SentimentLabel } from "./sentiment";
+
+export type TrendInterval = "week" | "month";
+
+export const TREND_INTERVALS: TrendInterval[] = ["week", "month"];
+
+export type TrendBucket = {
+  start: string; // YYYY-MM-DD, Monday of the week or first of the month (UTC)
+  review_count: number;
+  avg_rating: number | null;
+  // Over the bucket's reviews with text, percentages 0–100
+  sentiment: { positive: number; neutral: number; negative: number } | null;
+  // Average rating over this bucket and the ones before it in the window
+  rolling_avg_rating: number | null;
+  // Words used clearly more than in the buckets before
+  emerging_keywords: string[];
+};
+
+export type TrendDirection = "improving" | "declining" | "stable" | "insufficient_data";
+
+export type CompetitorTrends = {
+  competitor_id: string;
+  interval: TrendInterval;
+  window: number;
+  filters: AnalysisFilters;
+  buckets: TrendBucket[];
+  trend: {
+    direction: TrendDirection;
+    slope: number | null; // change in average rating per bucket
+    buckets_used: number; // buckets with reviews the slope was fitted on
+  };
+};
+
+// Slopes within ± this many stars per bucket count as stable
+const STABLE_SLOPE = 0.02;
+const MIN_TREND_BUCKETS = 3;
+const EMERGING_KEYWORDS_PER_BUCKET = 5;
+const MIN_EMERGING_COUNT = 2;
+// How much more often than before a word must be used to count as emerging
+const MIN_EMERGING_LIFT = 1.5;
+
+type TrendReviewRow = {
+  rating: number | null;
+  review_text: string | null;
+  review_date: Date;
+};
+
+function bucketStart(date: Date, interval: TrendInterval): Date {
+  if (interval === "month") {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  }
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday)
+  );
+}
+
+function nextBucketStart(start: Date, interval: TrendInterval): Date {
+  return interval === "month"
+    ? new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1))
+    : new Date(start.getTime() + 7 * 86_400_000);
+}
+
+/**
+ * Least-squares slope of y over x.
+ */
+function linearSlope(points: Array<{ x: number; y: number }>): number {
+  const n = points.length;
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  for (const p of points) {
+    covariance += (p.x - meanX) * (p.y - meanY);
+    variance += (p.x - meanX) ** 2;
+  }
+  return variance === 0 ? 0 : covariance / variance;
+}
+
+/**
+ * Keywords whose share of the bucket's words is highest relative to their
+ * (add-one smoothed) share in all earlier buckets. In the first bucket that
+ * is simply the most used words.
+ */
+function emergingKeywords(
+  bucketFreq: Map<string, number>,
+  priorFreq: Map<string, number>,
+  priorTotal: number
+): string[] {
+  const bucketTotal = [...bucketFreq.values()].reduce((sum, n) => sum + n, 0);
+  const vocabulary = new Set([...bucketFreq.keys(), ...priorFreq.keys()]).size;
+
+  return [...bucketFreq.entries()]
+    .filter(([, count]) => count >= MIN_EMERGING_COUNT)
+    .map(([word, count]) => {
+      const share = count / bucketTotal;
+      const priorShare = ((priorFreq.get(word) ?? 0) + 1) / (priorTotal + vocabulary);
+      return { word, lift: share / priorShare, count };
+    })
+    .filter((k) => k.lift >= MIN_EMERGING_LIFT)
+    .sort((a, b) => b.lift - a.lift || b.count - a.count)
+    .slice(0, EMERGING_KEYWORDS_PER_BUCKET)
+    .map((k) => k.word);
+}
+
+/**
+ * Review count, rating and sentiment of a competitor per week or month, with a
+ * rolling average over `window` buckets and the direction the rating is
+ * heading. Reviews without a known date are left out. Buckets without
+ * reviews are included (count 0), so the series has no gaps.
+ */
+export async function analyzeCompetitorTrends(
+  competitorId: string,
+  interval: TrendInterval,
+  window: number,
+  filters: AnalysisFilters
+): Promise<CompetitorTrends> {
+  const params: unknown[] = [competitorId];
+  const where = filterConditions(filters, params);
+  const { rows } = await pool.query<TrendReviewRow>(
+    `
+    SELECT rating, review_text, review_date
+    FROM public.reviews
+    WHERE ${where}
+      AND review_date IS NOT NULL
+    ORDER BY review_date
+    `,
+    params
+  );
+
+  type Accumulator = {
+    start: Date;
+    count: number;
+    ratingSum: number;
+    ratingCount: number;
+    sentiment: Record<SentimentLabel, number>;
+    keywordFreq: Map<string, number>;
+  };
+  const newAccumulator = (start: Date): Accumulator => ({
+    start,
+    count: 0,
+    ratingSum: 0,
+    ratingCount: 0,
+    sentiment: { positive: 0, neutral: 0, negative: 0 },
+    keywordFreq: new Map(),
+  });
+
+  const accumulators: Accumulator[] = [];
+  for (const row of rows) {
+    const start = bucketStart(new Date(row.review_date), interval);
+    // Open the buckets up to this review's, empty ones included
+    while (accumulators.length === 0 || accumulators[accumulators.length - 1]!.start < start) {
+      const last = accumulators[accumulators.length - 1];
+      accumulators.push(newAccumulator(last ? nextBucketStart(last.start, interval) : start));
+    }
+    const bucket = accumulators[accumulators.length - 1]!;
+
+    bucket.count++;
+    if (row.rating !== null && row.rating >= 1 && row.rating <= 5) {
+      bucket.ratingSum += row.rating;
+      bucket.ratingCount++;
+    }
+    if (row.review_text) {
+      const text = cleanReviewText(row.review_text);
+      const language = detectLanguage(text);
+      bucket.sentiment[scoreSentiment(text, language).label]++;
+      for (const token of tokenize(text, language)) {
+        bucket.keywordFreq.set(token, (bucket.keywordFreq.get(token) ?? 0) + 1);
+      }
+    }
+  }
+
+  const round2 = (n: number) => parseFloat(n.toFixed(2));
+  const priorFreq = new Map<string, number>();
+  let priorTotal = 0;
+
+  const buckets: TrendBucket[] = accumulators.map((bucket, index) => {
+    const inWindow = accumulators.slice(Math.max(0, index - window + 1), index + 1);
+    const windowRatings = inWindow.reduce((sum, b) => sum + b.ratingCount, 0);
+    const texts = bucket.sentiment.positive + bucket.sentiment.neutral + bucket.sentiment.negative;
+    const pct = (n: number) => Math.round((n / texts) * 100);
+
+    const emerging = emergingKeywords(bucket.keywordFreq, priorFreq, priorTotal);
+    for (const [word, count] of bucket.keywordFreq) {
+      priorFreq.set(word, (priorFreq.get(word) ?? 0) + count);
+      priorTotal += count;
+    }
+
+    return {
+      start: bucket.start.toISOString().slice(0, 10),
+      review_count: bucket.count,
+      avg_rating: bucket.ratingCount > 0 ? round2(bucket.ratingSum / bucket.ratingCount) : null,
+      sentiment:
+        texts > 0
+          ? {
+              positive: pct(bucket.sentiment.positive),
+              neutral: pct(bucket.sentiment.neutral),
+              negative: pct(bucket.sentiment.negative),
+            }
+          : null,
+      rolling_avg_rating:
+        windowRatings > 0
+          ? round2(inWindow.reduce((sum, b) => sum + b.ratingSum, 0) / windowRatings)
+          : null,
+      emerging_keywords: emerging,
+    };
+  });
+
+  const points = buckets.flatMap((b, index) =>
+    b.avg_rating !== null ? [{ x: index, y: b.avg_rating }] : []
+  );
+  let direction: TrendDirection = "insufficient_data";
+  let slope: number | null = null;
+  if (points.length >= MIN_TREND_BUCKETS) {
+    slope = parseFloat(linearSlope(points).toFixed(4));
+    direction = slope > STABLE_SLOPE ? "improving" : slope < -STABLE_SLOPE ? "declining" : "stable";
+  }
+
+  return {
+    competitor_id: competitorId,
+    interval,
+    window,
+    filters,
+    buckets,
+    trend: { direction, slope, buckets_used: points.length },
+  };
+}
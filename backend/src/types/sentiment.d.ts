@@ -7,11 +7,18 @@ declare module "sentiment" {
       positive: string[];
       negative: string[];
     };
+
+    type SentimentLanguage = {
+      labels: Record<string, number>;
+      scoringStrategy?: {
+        apply(tokens: string[], cursor: number, tokenScore: number): number;
+      };
+    };
   
     class Sentiment {
-      analyze(text: string): SentimentResult;
+      registerLanguage(languageCode: string, language: SentimentLanguage): void;
+      analyze(text: string, options?: { language?: string }): SentimentResult;
     }
   
     export = Sentiment;
   }
-  
\ No newline at end of file
@@ -0,0 +1,266 @@
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  heartbeatJob,
+  JOB_HEARTBEAT_INTERVAL_MS,
+  PermanentJobError,
+  recordJobEvent,
+  requeueStaleJobs,
+  updateJobProgress,
+  WORKER_ID,
+  type Job,
+  type JobProgress,
+  type JobType,
+} from "./jobs";
+import { NO_ANALYSIS_FILTERS, type AnalysisFilters } from "./analysis";
+import { generateCompetitorReport, type ReportStep } from "./reports";
+import {
+  loadCompetitorReviewUrls,
+  scrapeCompetitorSources,
+  type CompetitorScrapeEvent,
+} from "./scrapers/registry";
+import type { ScrapeOptions } from "./scrapers/types";
+
+// Jobs run at the same time in this process; each holds a browser context
+const CONCURRENCY = Number(process.env.JOB_CONCURRENCY) || 2;
+const POLL_INTERVAL_MS = Number(process.env.JOB_POLL_INTERVAL_MS) || 2_000;
+const STALE_CHECK_INTERVAL_MS = 60_000;
+
+type EmitJobEvent = (
+  type: string,
+  message: string,
+  data?: Record<string, unknown>,
+  progress?: JobProgress
+) => void;
+
+type JobHandler = (job: Job, emit: EmitJobEvent) => Promise<Record<string, unknown>>;
+
+/**
+ * Record a job's events one after the other, so they keep their order
+ * without holding up the job. `flush` waits for the ones still being written.
+ */
+function jobEventRecorder(jobId: string) {
+  let pending = Promise.resolve();
+
+  const emit: EmitJobEvent = (type, message, data = {}, progress) => {
+    pending = pending
+      .then(async () => {
+        await recordJobEvent(jobId, type, message, data);
+        if (progress) await updateJobProgress(jobId, progress);
+      })
+      .catch((e) => console.error("Error recording job event:", e));
+  };
+  return { emit, flush: () => pending };
+}
+
+function describeScrapeEvent(event: CompetitorScrapeEvent): string {
+  const source = event.source ?? event.url;
+  switch (event.type) {
+    case "source_started":
+      return `Scraping ${source}`;
+    case "consent_handled":
+      return `${source}: consent dialog accepted`;
+    case "reviews_tab_opened":
+      return `${source}: reviews tab opened`;
+    case "reviews_loaded":
+      return `${source}: ${event.loaded}/${event.limit} reviews loaded`;
+    case "reviews_parsed":
+      return `${source}: ${event.parsed} reviews parsed`;
+    case "inserting":
+      return `${source}: saving ${event.reviews} reviews`;
+    case "retrying":
+      return `${source}: attempt ${event.attempt} failed (${event.reason}), retrying`;
+    case "source_finished":
+      return event.reason
+        ? `${source} failed (${event.reason})`
+        : `${source} done, ${event.inserted} new reviews`;
+  }
+}
+
+const REPORT_STEP_MESSAGES: Record<ReportStep, string> = {
+  analyzing: "Analysing reviews",
+  comparing: "Comparing with your business",
+  checking_anomalies: "Checking for suspicious reviews",
+  rendering_pdf: "Rendering PDF",
+  saving: "Saving report",
+};
+
+async function runScrapeJob(job: Job, emit: EmitJobEvent) {
+  const competitorId = String(job.payload.competitor_id);
+  const options = {
+    mode: job.payload.mode,
+    limit: job.payload.limit,
+    language: job.payload.language,
+  } as ScrapeOptions;
+
+  const urls = await loadCompetitorReviewUrls(competitorId);
+  if (urls.length === 0) {
+    throw new PermanentJobError("Competitor has no review sources");
+  }
+
+  const totals = await scrapeCompetitorSources(competitorId, urls, options, (event) => {
+    const { type, done, total, ...data } = event;
+    const message = describeScrapeEvent(event);
+    emit(type, message, data, {
+      step: message,
+      done: type === "source_finished" ? done + 1 : done,
+      total,
+    });
+  });
+
+  const failures = totals.sources.flatMap((s) => ("error" in s ? [s] : []));
+  if (failures.length === totals.sources.length) {
+    // Sources already retried their transient failures; the job doesn't again
+    throw new PermanentJobError("Failed to scrape competitor", {
+      reason: failures[0]?.reason ?? "unknown",
+      sources: totals.sources,
+    });
+  }
+
+  return { competitor_id: competitorId, ...options, ...totals };
+}
+
+async function runReportJob(job: Job, emit: EmitJobEvent) {
+  const businessId = String(job.payload.business_id);
+  const competitorId = String(job.payload.competitor_id);
+  // Jobs queued before reports took filters have none
+  const filters = { ...NO_ANALYSIS_FILTERS, ...(job.payload.filters as Partial<AnalysisFilters>) };
+  const steps = Object.keys(REPORT_STEP_MESSAGES) as ReportStep[];
+
+  const { reportId, pdfUrl } = await generateCompetitorReport(
+    businessId,
+    competitorId,
+    filters,
+    job.payload.include_anomalies === true,
+    (step) =>
+      emit(step, REPORT_STEP_MESSAGES[step], {}, {
+        step: REPORT_STEP_MESSAGES[step],
+        done: steps.indexOf(step),
+        total: steps.length,
+      })
+  );
+
+  return { report_id: reportId, pdf_url: pdfUrl };
+}
+
+const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  scrape_competitor: runScrapeJob,
+  generate_report: runReportJob,
+};
+
+/**
+ * Run a claimed job. Its event stream ends with "done" (data: the result) or
+ * "failed" (data: error and reason); an attempt that will be retried ends
+ * with "attempt_failed" and the next one starts with "started" again.
+ */
+async function runJob(job: Job) {
+  console.log(`Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`);
+  const { emit, flush } = jobEventRecorder(job.id);
+  emit("started", `Attempt ${job.attempts} of ${job.max_attempts} started`, {
+    attempt: job.attempts,
+    max_attempts: job.max_attempts,
+  });
+  // Long scrapes can go without a progress update for longer than the lock timeout
+  const heartbeat = setInterval(() => {
+    heartbeatJob(job.id).catch((e) => console.error("Error refreshing job lock:", e));
+  }, JOB_HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const handler = JOB_HANDLERS[job.type];
+    if (!handler) throw new PermanentJobError(`Unknown job type: ${job.type}`);
+
+    const result = await handler(job, emit);
+    await flush();
+    if (await completeJob(job.id, result)) {
+      emit("done", "Done", result);
+      console.log(`✓ ${job.type} job ${job.id} succeeded`);
+    } else {
+      console.log(`${job.type} job ${job.id} finished after its lock was taken over; result dropped`);
+    }
+  } catch (error) {
+    console.error(`✗ ${job.type} job ${job.id} failed:`, error);
+    await flush();
+    const message = error instanceof Error ? error.message : String(error);
+    const details = error instanceof PermanentJobError ? error.details : null;
+    try {
+      const status = await failJob(job, error);
+      if (status === null) {
+        console.log(`${job.type} job ${job.id} failed after its lock was taken over`);
+      } else if (status === "dead") {
+        emit("failed", message, { error: message, reason: details?.reason ?? null });
+        console.log(`${job.type} job ${job.id} moved to dead-letter`);
+      } else {
+        emit("attempt_failed", `${message}; will be retried`, { error: message });
+        console.log(`${job.type} job ${job.id} will be retried`);
+      }
+    } catch (dbError) {
+      console.error("✗ Error recording failed job:", dbError);
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+  await flush();
+}
+
+let running = false;
+let polling = false;
+let pollTimer: NodeJS.Timeout | null = null;
+let lastStaleCheck = 0;
+const activeJobs = new Set<Promise<void>>();
+
+async function poll() {
+  pollTimer = null;
+  if (!running || polling) return;
+  polling = true;
+
+  try {
+    if (Date.now() - lastStaleCheck > STALE_CHECK_INTERVAL_MS) {
+      lastStaleCheck = Date.now();
+      const requeued = await requeueStaleJobs();
+      if (requeued > 0) console.log(`Requeued ${requeued} stale jobs`);
+    }
+
+    // Fill the free slots; stop early when the queue is empty
+    while (running && activeJobs.size < CONCURRENCY) {
+      const job = await claimNextJob();
+      if (!job) break;
+
+      const task = runJob(job).finally(() => {
+        activeJobs.delete(task);
+        // A slot just freed up, look for more work right away
+        if (running && !pollTimer) pollTimer = setTimeout(poll, 0);
+      });
+      activeJobs.add(task);
+    }
+  } catch (error) {
+    console.error("✗ Error polling job queue:", error);
+  } finally {
+    polling = false;
+  }
+
+  if (running && !pollTimer) pollTimer = setTimeout(poll, POLL_INTERVAL_MS);
+}
+
+/**
+ * Start the in-process worker loop. Every API instance works the queue
+ * unless started with JOB_WORKER=false.
+ */
+export function startJobWorker() {
+  if (running) return;
+  running = true;
+  console.log(`Job worker ${WORKER_ID} started (concurrency ${CONCURRENCY})`);
+  pollTimer = setTimeout(poll, 0);
+}
+
+/**
+ * Stop claiming jobs and wait for the running ones to finish.
+ */
+export async function stopJobWorker() {
+  running = false;
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+    pollTimer = null;
+  }
+  await Promise.allSettled([...activeJobs]);
+}
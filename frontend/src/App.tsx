@@ -1,6 +1,6 @@
 import { useEffect, useState } from "react";
 import { supabase } from "./lib/supabaseClient";
-import { postJson } from "./lib/api";
+import { ApiError, getJson, postJson, waitForJob } from "./lib/api";
 import "./App.css";
 
 type Business = {
@@ -23,8 +23,30 @@ type Report = {
   created_at: string;
 };
 
+type CompetitorSuggestion = {
+  url: string;
+  name: string | null;
+  category: string | null;
+  address: string | null;
+  rating: number | null;
+  review_count: number | null;
+  distance_km: number | null;
+};
+
 type AuthView = "sign-in" | "sign-up";
 
+// Readable text for the API's scrape failure reasons
+const SCRAPE_FAILURE_MESSAGES: Record<string, string> = {
+  timeout: "the page took too long to load, even after retrying",
+  network: "the site could not be reached",
+  browser_crashed: "the scraper's browser crashed",
+  consent_wall: "the cookie consent page could not be accepted",
+  blocked: "the site blocked the scraper (captcha); try again later",
+  no_reviews_tab: "the reviews panel could not be opened",
+  parse_failed: "reviews were found but could not be read",
+  unsupported_url: "this review site is not supported",
+};
+
 function App() {
   const [session, setSession] = useState<null | any>(null);
   const [email, setEmail] = useState("");
@@ -46,6 +68,14 @@ function App() {
   const [competitorCategory, setCompetitorCategory] = useState("");
   const [competitorError, setCompetitorError] = useState<string | null>(null);
 
+  const [suggestions, setSuggestions] = useState<CompetitorSuggestion[] | null>(
+    null
+  );
+  const [selectedSuggestions, setSelectedSuggestions] = useState<string[]>([]);
+  const [suggestionsError, setSuggestionsError] = useState<string | null>(null);
+  const [needsLocation, setNeedsLocation] = useState(false);
+  const [businessMapsUrl, setBusinessMapsUrl] = useState("");
+
   const [reports, setReports] = useState<Report[]>([]);
   const [reportsError, setReportsError] = useState<string | null>(null);
 
@@ -87,6 +117,9 @@ function App() {
       setCompetitors([]);
       setReports([]);
     }
+    setSuggestions(null);
+    setSuggestionsError(null);
+    setNeedsLocation(false);
   }, [selectedBusinessId]);
 
   async function handleSignIn() {
@@ -179,6 +212,7 @@ function App() {
       .from("competitors")
       .select("id, name, google_maps_url, category, created_at")
       .eq("business_id", businessId)
+      .eq("is_self", false)
       .order("created_at", { ascending: false });
 
     if (error) {
@@ -211,9 +245,37 @@ function App() {
       return;
     }
 
+    // Share links, search links etc. are rejected or turned into the
+    // canonical place URL the scraper understands
+    let place: {
+      url: string;
+      place_id: string | null;
+      feature_id: string | null;
+      lat: number | null;
+      lng: number | null;
+    };
+    try {
+      const resolved = await postJson<{ status: string; place: typeof place }>(
+        "/places/resolve",
+        { url: competitorUrl.trim() }
+      );
+      place = resolved.place;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "";
+      setCompetitorError(
+        message.replace(/^API error 400: /, "") ||
+          "Could not check the Google Maps URL."
+      );
+      return;
+    }
+
     const { error } = await supabase.from("competitors").insert({
       name: competitorName.trim(),
-      google_maps_url: competitorUrl.trim(),
+      google_maps_url: place.url,
+      google_place_id: place.place_id,
+      google_feature_id: place.feature_id,
+      latitude: place.lat,
+      longitude: place.lng,
       category: competitorCategory.trim() || null,
       business_id: selectedBusinessId,
       user_id: user.id,
@@ -232,21 +294,115 @@ function App() {
     setGlobalMessage("Competitor added successfully.");
   }
 
-  async function handleScrape(competitorId: string) {
+  async function handleSuggestCompetitors() {
+    if (!selectedBusinessId) return;
+    try {
+      setSuggestionsError(null);
+      setNeedsLocation(false);
+      setLoading(true);
+      const result = await getJson<{
+        status: string;
+        category: string;
+        suggestions: CompetitorSuggestion[];
+      }>(`/businesses/${selectedBusinessId}/competitor-suggestions`);
+      setSuggestions(result.suggestions);
+      setSelectedSuggestions([]);
+    } catch (error) {
+      const reason = error instanceof ApiError ? error.reason : null;
+      setNeedsLocation(reason === "no_location");
+      setSuggestionsError(
+        error instanceof Error
+          ? error.message.replace(/^API error \d+: /, "")
+          : "Could not load suggestions."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleSetBusinessLocation(e: React.FormEvent) {
+    e.preventDefault();
+    if (!selectedBusinessId || !businessMapsUrl.trim()) return;
+    try {
+      setSuggestionsError(null);
+      await postJson(
+        `/businesses/${selectedBusinessId}/location`,
+        { google_maps_url: businessMapsUrl.trim() },
+        "PUT"
+      );
+      setBusinessMapsUrl("");
+      setNeedsLocation(false);
+      await handleSuggestCompetitors();
+    } catch (error) {
+      setSuggestionsError(
+        error instanceof Error
+          ? error.message.replace(/^API error \d+: /, "")
+          : "Could not save the location."
+      );
+    }
+  }
+
+  async function handleAddSuggestions() {
+    if (!selectedBusinessId || !suggestions) return;
+    const places = suggestions
+      .filter((s) => selectedSuggestions.includes(s.url))
+      .map((s) => ({ url: s.url, name: s.name, category: s.category }));
+    if (places.length === 0) return;
+
     try {
-      setGlobalMessage(null);
       setLoading(true);
       const result = await postJson<{
         status: string;
-        competitor_id: string;
-        reviews_inserted: number;
-      }>(`/scrape-competitor/${competitorId}`);
+        competitors: unknown[];
+        skipped: unknown[];
+      }>(`/businesses/${selectedBusinessId}/competitors`, { places });
+      setSuggestions(suggestions.filter((s) => !selectedSuggestions.includes(s.url)));
+      setSelectedSuggestions([]);
+      await fetchCompetitors(selectedBusinessId);
       setGlobalMessage(
-        `Scraping completed. Inserted ${result.reviews_inserted} reviews.`
+        `Added ${result.competitors.length} competitor(s)` +
+          (result.skipped.length > 0 ? `, ${result.skipped.length} skipped.` : ".")
       );
-    } catch (error: any) {
+    } catch (error) {
+      setSuggestionsError(
+        error instanceof Error ? error.message : "Could not add competitors."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleScrape(competitorId: string) {
+    try {
+      setGlobalMessage(null);
+      setLoading(true);
+      const { job_id } = await postJson<{ status: string; job_id: string }>(
+        `/scrape-competitor/${competitorId}`
+      );
+      setGlobalMessage("Scrape queued...");
+      const result = await waitForJob<{
+        inserted: number;
+        updated: number;
+        unchanged: number;
+        sources: { url: string; reason?: string }[];
+      }>(job_id, (event) => setGlobalMessage(`${event.message}...`));
+      const failed = result.sources.filter((s) => s.reason);
+      setGlobalMessage(
+        `Scraping completed. ${result.inserted} new, ${result.updated} updated, ${result.unchanged} unchanged reviews.` +
+          (failed.length > 0
+            ? ` ${failed.length} source(s) failed: ${failed
+                .map((s) => SCRAPE_FAILURE_MESSAGES[s.reason!] ?? s.reason)
+                .join(", ")}.`
+            : "")
+      );
+    } catch (error) {
       console.error("Error triggering scrape:", error);
-      setGlobalMessage(`Scrape failed: ${error.message}`);
+      const reason = error instanceof ApiError ? error.reason : null;
+      setGlobalMessage(
+        reason
+          ? `Scrape failed: ${SCRAPE_FAILURE_MESSAGES[reason] ?? reason}.`
+          : `Scrape failed: ${error instanceof Error ? error.message : String(error)}`
+      );
     } finally {
       setLoading(false);
     }
@@ -261,13 +417,14 @@ function App() {
     try {
       setGlobalMessage(null);
       setLoading(true);
-      const result = await postJson<{
-        status: string;
-        report_id: string;
-        pdf_url: string;
-      }>(
+      const { job_id } = await postJson<{ status: string; job_id: string }>(
         `/businesses/${selectedBusinessId}/competitors/${competitorId}/report`
       );
+      setGlobalMessage("Report queued...");
+      const result = await waitForJob<{ report_id: string; pdf_url: string }>(
+        job_id,
+        (event) => setGlobalMessage(`${event.message}...`)
+      );
 
       setGlobalMessage("Report generated successfully.");
       await fetchReports(selectedBusinessId);
@@ -563,6 +720,106 @@ if (!session) {
                     <p className="text-error">{competitorError}</p>
                   )}
 
+                  <div style={{ marginBottom: 10 }}>
+                    <button
+                      className="btn"
+                      disabled={loading}
+                      onClick={handleSuggestCompetitors}
+                    >
+                      <span className="btn-icon">📍</span>
+                      Suggest nearby competitors
+                    </button>
+                  </div>
+
+                  {suggestionsError && (
+                    <p className="text-error">{suggestionsError}</p>
+                  )}
+
+                  {needsLocation && (
+                    <form
+                      onSubmit={handleSetBusinessLocation}
+                      style={{
+                        display: "grid",
+                        gridTemplateColumns: "1fr auto",
+                        gap: 8,
+                        marginBottom: 10,
+                      }}
+                    >
+                      <input
+                        type="text"
+                        className="input"
+                        placeholder="Your business's Google Maps URL"
+                        value={businessMapsUrl}
+                        onChange={(e) => setBusinessMapsUrl(e.target.value)}
+                      />
+                      <button type="submit" className="btn btn-primary">
+                        Save location
+                      </button>
+                    </form>
+                  )}
+
+                  {suggestions && (
+                    <div style={{ marginBottom: 10 }}>
+                      {suggestions.length === 0 ? (
+                        <p className="text-muted">
+                          No new competitors found nearby.
+                        </p>
+                      ) : (
+                        <>
+                          {suggestions.map((s) => (
+                            <label
+                              key={s.url}
+                              style={{
+                                display: "flex",
+                                gap: 8,
+                                alignItems: "center",
+                                marginBottom: 4,
+                              }}
+                            >
+                              <input
+                                type="checkbox"
+                                checked={selectedSuggestions.includes(s.url)}
+                                onChange={(e) =>
+                                  setSelectedSuggestions(
+                                    e.target.checked
+                                      ? [...selectedSuggestions, s.url]
+                                      : selectedSuggestions.filter(
+                                          (url) => url !== s.url
+                                        )
+                                  )
+                                }
+                              />
+                              <span>
+                                {s.name}
+                                <span className="text-muted">
+                                  {" "}
+                                  {[
+                                    s.category,
+                                    s.distance_km !== null
+                                      ? `${s.distance_km} km`
+                                      : null,
+                                    s.rating !== null
+                                      ? `${s.rating}★ (${s.review_count ?? 0})`
+                                      : null,
+                                  ]
+                                    .filter(Boolean)
+                                    .join(" · ")}
+                                </span>
+                              </span>
+                            </label>
+                          ))}
+                          <button
+                            className="btn btn-primary"
+                            disabled={loading || selectedSuggestions.length === 0}
+                            onClick={handleAddSuggestions}
+                          >
+                            Add selected
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  )}
+
                   {competitors.length === 0 ? (
                     <p className="text-muted">
                       No competitors yet. Add at least one using Google Maps URL.
@@ -1,12 +1,44 @@
 const API_BASE_URL =
   (import.meta.env.VITE_API_BASE_URL as string) || "http://localhost:4000";
 
+/**
+ * Non-2xx API response. `reason` is the API's machine-readable failure
+ * reason when it sends one (e.g. a scrape that was "blocked").
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly reason: string | null;
+
+  constructor(message: string, status: number, reason: string | null) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.reason = reason;
+  }
+}
+
+async function toApiError(res: Response): Promise<ApiError> {
+  const text = await res.text();
+  // Prefer the API's own { error } message over the raw body
+  let message = text;
+  let reason: string | null = null;
+  try {
+    const body = JSON.parse(text);
+    message = body.error ?? text;
+    reason = body.reason ?? null;
+  } catch {
+    // not JSON
+  }
+  return new ApiError(`API error ${res.status}: ${message}`, res.status, reason);
+}
+
 export async function postJson<T = any>(
   path: string,
-  body?: unknown
+  body?: unknown,
+  method: "POST" | "PUT" = "POST"
 ): Promise<T> {
   const res = await fetch(`${API_BASE_URL}${path}`, {
-    method: "POST",
+    method,
     headers: {
       "Content-Type": "application/json",
     },
@@ -14,9 +46,94 @@ export async function postJson<T = any>(
   });
 
   if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`API error ${res.status}: ${text}`);
+    throw await toApiError(res);
+  }
+
+  return (await res.json()) as T;
+}
+
+export async function getJson<T>(path: string): Promise<T> {
+  const res = await fetch(`${API_BASE_URL}${path}`);
+
+  if (!res.ok) {
+    throw await toApiError(res);
   }
 
   return (await res.json()) as T;
 }
+
+export type JobProgress = { step: string; done: number; total: number };
+
+/**
+ * One step of a job as streamed by GET /jobs/:id/events.
+ */
+export type JobEvent = {
+  type: string; // queued, started, reviews_loaded, rendering_pdf, done, failed, ...
+  message: string;
+  data: Record<string, unknown>;
+};
+
+type Job<T> = {
+  id: string;
+  status: "queued" | "running" | "succeeded" | "dead";
+  progress: JobProgress | null;
+  result: T | null;
+  last_error: string | null;
+};
+
+const JOB_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Follow a background job (202 responses carry its id) until it is done,
+ * passing every progress event to `onEvent`. Resolves with its result; a job
+ * that ended up dead throws an ApiError with the failure reason, if any.
+ * Streams the job's events and falls back to polling when the stream can't
+ * be opened.
+ */
+export function waitForJob<T>(
+  jobId: string,
+  onEvent?: (event: JobEvent) => void
+): Promise<T> {
+  if (typeof EventSource === "undefined") return pollJob(jobId, onEvent);
+
+  return new Promise<T>((resolve, reject) => {
+    const stream = new EventSource(`${API_BASE_URL}/jobs/${jobId}/events`);
+    stream.onmessage = (message) => {
+      const event = JSON.parse(message.data) as JobEvent;
+      if (event.type === "done") {
+        stream.close();
+        resolve(event.data as T);
+      } else if (event.type === "failed") {
+        stream.close();
+        const reason = (event.data.reason as string | null | undefined) ?? null;
+        reject(new ApiError(event.message || "Job failed", 500, reason));
+      } else {
+        onEvent?.(event);
+      }
+    };
+
+    // The stream broke or ended without a final event (e.g. the job was
+    // finished by another worker's cleanup): the job itself has the outcome
+    stream.onerror = () => {
+      stream.close();
+      pollJob<T>(jobId, onEvent).then(resolve, reject);
+    };
+  });
+}
+
+async function pollJob<T>(jobId: string, onEvent?: (event: JobEvent) => void): Promise<T> {
+  for (;;) {
+    const { job } = await getJson<{ job: Job<T> }>(`/jobs/${jobId}`);
+    if (job.status === "succeeded") {
+      return job.result as T;
+    }
+    if (job.status === "dead") {
+      const reason = (job.result as { reason?: string } | null)?.reason ?? null;
+      throw new ApiError(job.last_error ?? "Job failed", 500, reason);
+    }
+    if (job.progress && onEvent) {
+      onEvent({ type: "progress", message: job.progress.step, data: job.progress });
+    }
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+  }
+}